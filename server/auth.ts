@@ -0,0 +1,113 @@
+import * as fs from "fs"
+import * as path from "path"
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+import { utils as sshUtils } from "ssh2"
+import { logger } from "./logger"
+
+export interface UserRecord {
+  username: string
+  // sha256 hex digest of the user's pre-shared token
+  tokenHash?: string
+  // OpenSSH public keys accepted for challenge-response authentication
+  publicKeys?: string[]
+  // Defaults to <projects root>/<username>
+  projectRoot?: string
+}
+
+interface UsersFile {
+  users: UserRecord[]
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/
+
+// Verifies client credentials against a JSON users file. The file is re-read on every
+// authentication so tokens issued while the server is running take effect immediately.
+export class Authenticator {
+  constructor(
+    private usersFile: string,
+    private projectsRoot: string,
+    // Users outside this list are rejected even if the users file has credentials for them
+    private allowedUsers?: string[],
+  ) {}
+
+  static hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex")
+  }
+
+  // Generates a new token for the user, replacing any previous one, and returns it in clear text
+  issueToken(username: string): string {
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new Error(`Invalid username: ${username}`)
+    }
+
+    const token = randomBytes(32).toString("base64url")
+    const file = this.readUsers()
+    const user = file.users.find((candidate) => candidate.username === username)
+
+    if (user) {
+      user.tokenHash = Authenticator.hashToken(token)
+    } else {
+      file.users.push({ username, tokenHash: Authenticator.hashToken(token) })
+    }
+
+    fs.mkdirSync(path.dirname(this.usersFile), { recursive: true, mode: 0o700 })
+    fs.writeFileSync(this.usersFile, JSON.stringify(file, null, 2), { mode: 0o600 })
+    return token
+  }
+
+  createChallenge(): string {
+    return randomBytes(32).toString("base64")
+  }
+
+  verifyToken(username: string, token: string): UserRecord | null {
+    const user = this.findUser(username)
+    if (!user || !user.tokenHash) {
+      return null
+    }
+
+    const expected = Buffer.from(user.tokenHash, "hex")
+    const actual = Buffer.from(Authenticator.hashToken(token), "hex")
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? user : null
+  }
+
+  verifySignature(username: string, challenge: string, signature: string): UserRecord | null {
+    const user = this.findUser(username)
+    if (!user || !user.publicKeys) {
+      return null
+    }
+
+    for (const publicKey of user.publicKeys) {
+      const key = sshUtils.parseKey(publicKey)
+      if (key instanceof Error || Array.isArray(key)) {
+        logger.warn("Ignoring unparseable public key", { username })
+        continue
+      }
+
+      if (key.verify(Buffer.from(challenge), Buffer.from(signature, "base64")) === true) {
+        return user
+      }
+    }
+
+    return null
+  }
+
+  getProjectRoot(user: UserRecord): string {
+    return path.resolve(user.projectRoot || path.join(this.projectsRoot, user.username))
+  }
+
+  private findUser(username: string): UserRecord | undefined {
+    if (!USERNAME_PATTERN.test(username) || (this.allowedUsers && !this.allowedUsers.includes(username))) {
+      return undefined
+    }
+    return this.readUsers().users.find((user) => user.username === username)
+  }
+
+  private readUsers(): UsersFile {
+    if (!fs.existsSync(this.usersFile)) {
+      return { users: [] }
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(this.usersFile, "utf8"))
+    return { users: Array.isArray(parsed.users) ? parsed.users : [] }
+  }
+}
@@ -0,0 +1,351 @@
+import * as fs from "fs"
+import * as path from "path"
+import { encodePng } from "../png"
+import { checkLldbCommand } from "../lldb"
+import type { SimulatorInfo } from "../../src/shared/protocol"
+import type {
+  BuildOutputHandler,
+  BuildRequest,
+  BuildResult,
+  DebuggerHandlers,
+  DebuggerSession,
+  LaunchOptions,
+  SimulatorBackend,
+  SimulatorControl,
+} from "./simulatorBackend"
+
+export interface FakeBackendOptions {
+  bundleId?: string
+  // Delay between scripted build log lines, in milliseconds
+  stepDelay?: number
+}
+
+interface FakeDevice extends SimulatorInfo {
+  width: number
+  height: number
+  landscape: boolean
+  locked: boolean
+  installedApps: Set<string>
+  runningApp: string | null
+  lastTap: { x: number; y: number } | null
+}
+
+type Color = [number, number, number]
+
+const FAKE_DEVICES: Array<Pick<FakeDevice, "id" | "name" | "runtime" | "width" | "height">> = [
+  { id: "00000000-0000-0000-0000-000000000001", name: "iPhone 15 Pro", runtime: "iOS-17-5", width: 393, height: 852 },
+  { id: "00000000-0000-0000-0000-000000000002", name: "iPhone 15", runtime: "iOS-17-5", width: 393, height: 852 },
+  { id: "00000000-0000-0000-0000-000000000003", name: "iPhone SE", runtime: "iOS-17-5", width: 375, height: 667 },
+  { id: "00000000-0000-0000-0000-000000000004", name: "iPad Air", runtime: "iOS-17-5", width: 820, height: 1180 },
+]
+
+// Deterministic stand-in for XcodeBackend so the server can run on machines without Xcode.
+// Frames are rendered from the simulated device state and builds replay a scripted xcodebuild log.
+export class FakeSimulatorBackend implements SimulatorBackend {
+  readonly name = "fake"
+
+  private devices: Map<string, FakeDevice> = new Map()
+  private builtApps: Map<string, string> = new Map()
+  private launchCount = 0
+  private bundleId: string
+  private stepDelay: number
+
+  constructor(options: FakeBackendOptions = {}) {
+    this.bundleId = options.bundleId || "com.example.FakeApp"
+    this.stepDelay = options.stepDelay ?? 10
+
+    for (const device of FAKE_DEVICES) {
+      this.devices.set(device.id, {
+        ...device,
+        state: "Shutdown",
+        landscape: false,
+        locked: false,
+        installedApps: new Set(),
+        runningApp: null,
+        lastTap: null,
+      })
+    }
+  }
+
+  async getXcodeVersion(): Promise<string | null> {
+    return "15.4 (fake)"
+  }
+
+  async listDevices(): Promise<SimulatorInfo[]> {
+    return Array.from(this.devices.values()).map(({ id, name, state, runtime }) => ({ id, name, state, runtime }))
+  }
+
+  async boot(udid: string): Promise<void> {
+    this.getDevice(udid).state = "Booted"
+  }
+
+  async screenshot(udid: string): Promise<Buffer> {
+    const device = this.getBootedDevice(udid)
+    const width = device.landscape ? device.height : device.width
+    const height = device.landscape ? device.width : device.height
+    const pixels = Buffer.alloc(width * height * 4)
+
+    const fill = (x0: number, y0: number, w: number, h: number, [r, g, b]: Color) => {
+      for (let y = Math.max(0, y0); y < Math.min(height, y0 + h); y++) {
+        for (let x = Math.max(0, x0); x < Math.min(width, x0 + w); x++) {
+          const offset = (y * width + x) * 4
+          pixels[offset] = r
+          pixels[offset + 1] = g
+          pixels[offset + 2] = b
+          pixels[offset + 3] = 255
+        }
+      }
+    }
+
+    if (device.locked) {
+      fill(0, 0, width, height, [0, 0, 0])
+    } else if (device.runningApp) {
+      // App screen: white content with a colored navigation bar
+      fill(0, 0, width, height, [255, 255, 255])
+      fill(0, 0, width, 100, this.colorFor(device.runningApp))
+    } else {
+      // Home screen: a grid of app icons on a blue wallpaper
+      fill(0, 0, width, height, [30, 60, 140])
+      const icon = 60
+      const gap = Math.floor((width - icon * 4) / 5)
+      for (let row = 0; row < 5; row++) {
+        for (let column = 0; column < 4; column++) {
+          const color: Color = [80 + row * 30, 120 + column * 30, 200 - row * 20]
+          fill(gap + column * (icon + gap), 80 + row * (icon + 30), icon, icon, color)
+        }
+      }
+    }
+
+    if (device.lastTap) {
+      fill(device.lastTap.x - 5, device.lastTap.y - 5, 10, 10, [255, 0, 0])
+    }
+
+    return encodePng(width, height, pixels)
+  }
+
+  async tap(udid: string, x: number, y: number): Promise<void> {
+    this.getBootedDevice(udid).lastTap = { x: Math.round(x), y: Math.round(y) }
+  }
+
+  async control(udid: string, action: SimulatorControl): Promise<void> {
+    const device = this.getBootedDevice(udid)
+
+    switch (action) {
+      case "home":
+        device.runningApp = null
+        device.locked = false
+        break
+      case "lock":
+        device.locked = !device.locked
+        break
+      case "rotate":
+        device.landscape = !device.landscape
+        break
+      case "shake":
+        break
+    }
+  }
+
+  async build(request: BuildRequest, onOutput: BuildOutputHandler): Promise<BuildResult> {
+    const sourceFiles = this.findSwiftFiles(request.projectPath)
+    const target = path.basename(request.projectPath)
+    const action = request.action === "archive" ? "ARCHIVE" : "BUILD"
+    const errors: string[] = []
+
+    const emit = async (line: string, isError = false) => {
+      if (request.signal?.aborted) {
+        throw new Error("Build cancelled")
+      }
+      onOutput(`${line}\n`, isError)
+      if (this.stepDelay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.stepDelay))
+      }
+    }
+
+    await emit(
+      `Command line invocation:\n    /usr/bin/xcodebuild -scheme ${request.scheme || target} -configuration ${request.configuration}`,
+    )
+    await emit("Build settings from command line:")
+    await emit(`    SDKROOT = ${request.destination.platform === "simulator" ? "iphonesimulator" : "iphoneos"}`)
+
+    for (const file of sourceFiles) {
+      await emit(`CompileSwift normal arm64 ${file} (in target '${target}' from project '${target}')`)
+
+      // #warning and #error directives produce the matching compiler diagnostics
+      const lines = fs.readFileSync(file, "utf8").split("\n")
+      for (let index = 0; index < lines.length; index++) {
+        const directive = lines[index].match(/#(warning|error)\("(.*)"\)/)
+        if (!directive) continue
+
+        const diagnostic = `${file}:${index + 1}:1: ${directive[1]}: ${directive[2]}`
+        if (directive[1] === "error") {
+          errors.push(diagnostic)
+        }
+        await emit(diagnostic, directive[1] === "error")
+      }
+    }
+
+    if (errors.length > 0) {
+      await emit(`** ${action} FAILED **`, true)
+      throw new Error("Build failed with code 65")
+    }
+
+    const sdk = request.destination.platform === "simulator" ? "iphonesimulator" : "iphoneos"
+    const productsDir =
+      request.action === "archive"
+        ? path.join(request.archivePath || request.derivedDataPath, "Products", "Applications")
+        : path.join(request.derivedDataPath, "Build", "Products", `${request.configuration}-${sdk}`)
+    const appPath = path.join(productsDir, `${target}.app`)
+
+    await emit(`Ld ${appPath}/${target} normal (in target '${target}' from project '${target}')`)
+    await emit(`CodeSign ${appPath} (in target '${target}' from project '${target}')`)
+
+    fs.mkdirSync(appPath, { recursive: true })
+    fs.writeFileSync(
+      path.join(appPath, "Info.plist"),
+      `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>CFBundleIdentifier</key>
+  <string>${this.bundleId}</string>
+  <key>CFBundleExecutable</key>
+  <string>${target}</string>
+</dict>
+</plist>
+`,
+      "utf8",
+    )
+    this.builtApps.set(appPath, this.bundleId)
+
+    await emit(`** ${action} SUCCEEDED **`)
+    return { appPath, bundleId: this.bundleId }
+  }
+
+  async install(udid: string, appPath: string): Promise<void> {
+    const device = this.getBootedDevice(udid)
+    const bundleId = this.builtApps.get(appPath)
+    if (!bundleId || !fs.existsSync(appPath)) {
+      throw new Error(`Invalid app bundle: ${appPath}`)
+    }
+    device.installedApps.add(bundleId)
+  }
+
+  async launch(udid: string, bundleId: string, options: LaunchOptions = {}): Promise<number> {
+    const device = this.getBootedDevice(udid)
+    if (!device.installedApps.has(bundleId)) {
+      throw new Error(`The app ${bundleId} is not installed on ${device.name}`)
+    }
+
+    device.runningApp = bundleId
+    device.locked = false
+    this.launchCount++
+    return 10000 + this.launchCount
+  }
+
+  // Echoes each command the way lldb does and detaches on quit
+  attachDebugger(udid: string, processId: number, handlers: DebuggerHandlers): DebuggerSession {
+    this.getBootedDevice(udid)
+    let attached = true
+    const detach = () => {
+      if (!attached) return
+      attached = false
+      setImmediate(handlers.onExit)
+    }
+    setImmediate(() => handlers.onOutput(`Process ${processId} stopped\n`, false))
+
+    return {
+      send: (command) => {
+        checkLldbCommand(command)
+        if (!attached) return
+        setImmediate(() => handlers.onOutput(`(lldb) ${command}\n`, false))
+        if (command === "quit") detach()
+      },
+      kill: detach,
+    }
+  }
+
+  // One development profile for the fake app, with the <data> and <date> values real profiles have
+  async readProvisioningProfiles(): Promise<string[]> {
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+	<key>AppIDName</key>
+	<string>Fake App</string>
+	<key>CreationDate</key>
+	<date>2024-01-01T00:00:00Z</date>
+	<key>DeveloperCertificates</key>
+	<array>
+		<data>
+		MIIBfakeCertificate
+		</data>
+	</array>
+	<key>Entitlements</key>
+	<dict>
+		<key>application-identifier</key>
+		<string>FAKETEAM01.${this.bundleId}</string>
+		<key>get-task-allow</key>
+		<true/>
+	</dict>
+	<key>ExpirationDate</key>
+	<date>2099-01-01T00:00:00Z</date>
+	<key>Name</key>
+	<string>iOS Team Provisioning Profile: ${this.bundleId}</string>
+	<key>ProvisionedDevices</key>
+	<array>
+		<string>00008101-000000000000FAKE</string>
+	</array>
+	<key>TeamIdentifier</key>
+	<array>
+		<string>FAKETEAM01</string>
+	</array>
+	<key>UUID</key>
+	<string>00000000-0000-0000-0000-0000000000AA</string>
+</dict>
+</plist>
+`,
+    ]
+  }
+
+  private getDevice(udid: string): FakeDevice {
+    const device = this.devices.get(udid)
+    if (!device) {
+      throw new Error(`Invalid device: ${udid}`)
+    }
+    return device
+  }
+
+  private getBootedDevice(udid: string): FakeDevice {
+    const device = this.getDevice(udid)
+    if (device.state !== "Booted") {
+      throw new Error(`Unable to perform operation on ${device.name} in current state: ${device.state}`)
+    }
+    return device
+  }
+
+  private findSwiftFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) return []
+
+    const files: string[] = []
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith(".")) continue
+
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        files.push(...this.findSwiftFiles(entryPath))
+      } else if (entry.name.endsWith(".swift")) {
+        files.push(entryPath)
+      }
+    }
+    return files
+  }
+
+  private colorFor(value: string): Color {
+    let hash = 0
+    for (let i = 0; i < value.length; i++) {
+      hash = (hash * 31 + value.charCodeAt(i)) >>> 0
+    }
+    return [hash & 0xff, (hash >> 8) & 0xff, (hash >> 16) & 0xff]
+  }
+}
@@ -0,0 +1,58 @@
+import type { SimulatorInfo } from "../../src/shared/protocol"
+
+export type SimulatorControl = "home" | "lock" | "shake" | "rotate"
+
+export interface BuildRequest {
+  projectPath: string
+  configuration: string
+  // Shared scheme to build; the project's first scheme when unset
+  scheme?: string
+  // Omitting the destination id builds for any device of that platform
+  destination: { platform: "simulator" | "device"; id?: string }
+  derivedDataPath: string
+  action?: "build" | "archive"
+  archivePath?: string
+  signal?: AbortSignal
+}
+
+export interface BuildResult {
+  appPath: string
+  bundleId: string
+}
+
+export interface LaunchOptions {
+  waitForDebugger?: boolean
+}
+
+export type BuildOutputHandler = (output: string, isError: boolean) => void
+
+// lldb attached to a launched app
+export interface DebuggerSession {
+  // Runs one lldb command; throws for commands containing line breaks or other control characters
+  send(command: string): void
+  kill(): void
+}
+
+export interface DebuggerHandlers {
+  onOutput: (output: string, isError: boolean) => void
+  onExit: () => void
+}
+
+// Everything iOSServer needs from Xcode's simulator and build tooling
+export interface SimulatorBackend {
+  readonly name: string
+  // e.g. "15.4 (15F31d)", or null when Xcode is not installed
+  getXcodeVersion(): Promise<string | null>
+  listDevices(): Promise<SimulatorInfo[]>
+  boot(udid: string): Promise<void>
+  screenshot(udid: string): Promise<Buffer>
+  tap(udid: string, x: number, y: number): Promise<void>
+  control(udid: string, action: SimulatorControl): Promise<void>
+  build(request: BuildRequest, onOutput: BuildOutputHandler): Promise<BuildResult>
+  install(udid: string, appPath: string): Promise<void>
+  // Resolves with the process id of the launched app
+  launch(udid: string, bundleId: string, options?: LaunchOptions): Promise<number>
+  attachDebugger(udid: string, processId: number, handlers: DebuggerHandlers): DebuggerSession
+  // Installed provisioning profiles, each decoded to an XML property list
+  readProvisioningProfiles(): Promise<string[]>
+}
@@ -0,0 +1,248 @@
+import * as fs from "fs"
+import * as path from "path"
+import { spawn } from "child_process"
+import { runProcess, runProcessForBuffer } from "../process"
+import { checkLldbCommand } from "../lldb"
+import type { SimulatorInfo } from "../../src/shared/protocol"
+import type {
+  BuildOutputHandler,
+  BuildRequest,
+  BuildResult,
+  DebuggerHandlers,
+  DebuggerSession,
+  LaunchOptions,
+  SimulatorBackend,
+  SimulatorControl,
+} from "./simulatorBackend"
+
+// Drives the real simulator and build tools through xcrun simctl and xcodebuild
+export class XcodeBackend implements SimulatorBackend {
+  readonly name = "xcode"
+
+  async getXcodeVersion(): Promise<string | null> {
+    try {
+      // Output looks like: Xcode 15.4\nBuild version 15F31d
+      const output = await runProcess("xcodebuild", ["-version"])
+      const version = output.match(/Xcode\s+(\S+)/)
+      const build = output.match(/Build version\s+(\S+)/)
+      return version ? `${version[1]}${build ? ` (${build[1]})` : ""}` : null
+    } catch {
+      return null
+    }
+  }
+
+  async listDevices(): Promise<SimulatorInfo[]> {
+    const output = await runProcess("xcrun", ["simctl", "list", "devices", "available", "-j"])
+    const parsed = JSON.parse(output)
+    const simulators: SimulatorInfo[] = []
+
+    for (const [runtime, devices] of Object.entries<any[]>(parsed.devices || {})) {
+      for (const device of devices) {
+        simulators.push({
+          id: device.udid,
+          name: device.name,
+          state: device.state,
+          runtime: runtime.replace("com.apple.CoreSimulator.SimRuntime.", ""),
+        })
+      }
+    }
+
+    return simulators
+  }
+
+  async boot(udid: string): Promise<void> {
+    try {
+      await runProcess("xcrun", ["simctl", "boot", udid])
+    } catch (error) {
+      // Booting an already booted simulator is not an error for our purposes
+      if (!/current state: Booted/.test((error as Error).message)) {
+        throw error
+      }
+    }
+  }
+
+  async screenshot(udid: string): Promise<Buffer> {
+    // "-" writes the PNG to stdout, which saves a round trip through a temporary file on every frame
+    return runProcessForBuffer("xcrun", ["simctl", "io", udid, "screenshot", "--type=png", "-"])
+  }
+
+  async tap(udid: string, x: number, y: number): Promise<void> {
+    await runProcess("xcrun", ["simctl", "io", udid, "tap", String(x), String(y)])
+  }
+
+  async control(udid: string, action: SimulatorControl): Promise<void> {
+    switch (action) {
+      case "home":
+      case "lock":
+        await runProcess("xcrun", ["simctl", "io", udid, "pressButton", action])
+        break
+      case "shake":
+        await runProcess("xcrun", ["simctl", "io", udid, "shake"])
+        break
+      case "rotate":
+        await runProcess("xcrun", ["simctl", "io", udid, "rotate", "left"])
+        break
+    }
+  }
+
+  async build(request: BuildRequest, onOutput: BuildOutputHandler): Promise<BuildResult> {
+    const sdk = request.destination.platform === "simulator" ? "iphonesimulator" : "iphoneos"
+    const platform = request.destination.platform === "simulator" ? "iOS Simulator" : "iOS"
+    const destination = request.destination.id
+      ? `platform=${platform},id=${request.destination.id}`
+      : `generic/platform=${platform}`
+
+    const args = [
+      ...(await this.getContainerArgs(request.projectPath, request.scheme)),
+      "-configuration",
+      request.configuration,
+      "-destination",
+      destination,
+      "-derivedDataPath",
+      request.derivedDataPath,
+    ]
+    if (request.destination.platform === "device") {
+      args.push("-allowProvisioningUpdates")
+    }
+    if (request.action === "archive") {
+      if (!request.archivePath) throw new Error("archivePath is required for archive builds")
+      args.push("-archivePath", request.archivePath, "archive")
+    } else {
+      args.push("build")
+    }
+
+    await runProcess("xcodebuild", args, {
+      cwd: request.projectPath,
+      signal: request.signal,
+      onStdout: (output) => onOutput(output, false),
+      onStderr: (output) => onOutput(output, true),
+    })
+
+    const productsDir =
+      request.action === "archive"
+        ? path.join(request.archivePath!, "Products", "Applications")
+        : path.join(request.derivedDataPath, "Build", "Products", `${request.configuration}-${sdk}`)
+    const appPath = this.findBuiltApp(productsDir)
+
+    return { appPath, bundleId: await this.readBundleId(appPath) }
+  }
+
+  async install(udid: string, appPath: string): Promise<void> {
+    await runProcess("xcrun", ["simctl", "install", udid, appPath])
+  }
+
+  async launch(udid: string, bundleId: string, options: LaunchOptions = {}): Promise<number> {
+    const args = ["simctl", "launch", "--terminate-running-process"]
+    if (options.waitForDebugger) {
+      args.push("--wait-for-debugger")
+    }
+
+    // Output looks like: com.example.app: 12345
+    const output = await runProcess("xcrun", [...args, udid, bundleId])
+    const pidMatch = output.match(/:\s*(\d+)/)
+    if (!pidMatch) {
+      throw new Error(`Unable to determine process id from: ${output.trim()}`)
+    }
+    return Number(pidMatch[1])
+  }
+
+  attachDebugger(udid: string, processId: number, handlers: DebuggerHandlers): DebuggerSession {
+    const lldb = spawn("xcrun", ["lldb", "--attach-pid", String(processId)])
+    lldb.stdout.on("data", (output) => handlers.onOutput(output.toString(), false))
+    lldb.stderr.on("data", (output) => handlers.onOutput(output.toString(), true))
+    // A failed spawn may be followed by "close" as well, so onExit is guarded against running twice
+    let exited = false
+    const exit = () => {
+      if (exited) return
+      exited = true
+      handlers.onExit()
+    }
+    lldb.on("error", (error) => {
+      handlers.onOutput(`Could not run lldb: ${error.message}\n`, true)
+      exit()
+    })
+    lldb.stdin.on("error", (error) => handlers.onOutput(`Could not send command to lldb: ${error.message}\n`, true))
+    lldb.on("close", exit)
+
+    return {
+      send: (command) => {
+        checkLldbCommand(command)
+        if (!lldb.stdin.destroyed) {
+          lldb.stdin.write(`${command}\n`)
+        }
+      },
+      kill: () => lldb.kill(),
+    }
+  }
+
+  async readProvisioningProfiles(): Promise<string[]> {
+    const home = process.env.HOME || "/tmp"
+    const profileDirs = [
+      path.join(home, "Library", "MobileDevice", "Provisioning Profiles"),
+      path.join(home, "Library", "Developer", "Xcode", "UserData", "Provisioning Profiles"),
+    ]
+    const profiles: string[] = []
+
+    for (const dir of profileDirs) {
+      if (!fs.existsSync(dir)) continue
+
+      for (const file of fs.readdirSync(dir)) {
+        if (!file.endsWith(".mobileprovision")) continue
+
+        const plist = await runProcess("security", ["cms", "-D", "-i", path.join(dir, file)])
+        // JSON cannot hold the <data> and <date> values every profile has, so plutil refuses to convert to it
+        profiles.push(await runProcess("plutil", ["-convert", "xml1", "-o", "-", "-"], { input: plist }))
+      }
+    }
+
+    return profiles
+  }
+
+  private async getContainerArgs(projectPath: string, scheme?: string): Promise<string[]> {
+    const entries = fs.readdirSync(projectPath)
+    const workspace = entries.find((entry) => entry.endsWith(".xcworkspace"))
+    const project = entries.find((entry) => entry.endsWith(".xcodeproj"))
+
+    let containerArgs: string[]
+    if (workspace) {
+      containerArgs = ["-workspace", path.join(projectPath, workspace)]
+    } else if (project) {
+      containerArgs = ["-project", path.join(projectPath, project)]
+    } else {
+      throw new Error("No .xcworkspace or .xcodeproj found in project root")
+    }
+
+    const list = JSON.parse(await runProcess("xcodebuild", [...containerArgs, "-list", "-json"]))
+    const schemes: string[] = (list.workspace || list.project || {}).schemes || []
+    if (schemes.length === 0) {
+      throw new Error("No shared schemes found in project")
+    }
+    if (scheme && !schemes.includes(scheme)) {
+      throw new Error(`Scheme ${scheme} not found in project; available schemes: ${schemes.join(", ")}`)
+    }
+
+    return [...containerArgs, "-scheme", scheme || schemes[0]]
+  }
+
+  private findBuiltApp(productsDir: string): string {
+    const app = fs.existsSync(productsDir)
+      ? fs.readdirSync(productsDir).find((entry) => entry.endsWith(".app"))
+      : undefined
+    if (!app) {
+      throw new Error(`No .app bundle found in ${productsDir}`)
+    }
+    return path.join(productsDir, app)
+  }
+
+  private async readBundleId(appPath: string): Promise<string> {
+    const output = await runProcess("plutil", [
+      "-extract",
+      "CFBundleIdentifier",
+      "raw",
+      "-o",
+      "-",
+      path.join(appPath, "Info.plist"),
+    ])
+    return output.trim()
+  }
+}
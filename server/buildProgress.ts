@@ -0,0 +1,71 @@
+import * as fs from "fs"
+import * as path from "path"
+import type { RequestProgress } from "../src/shared/protocol"
+
+const SOURCE_EXTENSIONS = new Set([".swift", ".m", ".mm", ".c", ".cpp"])
+// Never contain sources of the project being built
+const SKIPPED_DIRECTORIES = new Set([".ios-vscode", ".build", ".git", "node_modules", "DerivedData"])
+
+// Compiling covers the first COMPILE_SHARE percent of a build
+const COMPILE_SHARE = 80
+const PHASES: Array<{ pattern: RegExp; phase: string; percent?: number }> = [
+  { pattern: /^(CompileSwift|SwiftCompile|CompileC) /, phase: "Compiling" },
+  { pattern: /^(CompileAssetCatalog|CompileStoryboard|ProcessInfoPlistFile) /, phase: "Processing resources" },
+  { pattern: /^Ld /, phase: "Linking", percent: 85 },
+  { pattern: /^CodeSign /, phase: "Signing", percent: 95 },
+]
+
+// Derives build progress from xcodebuild output. xcodebuild does not say how much work is left, so
+// the share of the project's source files compiled so far stands in for it; incremental builds
+// that compile only a few files jump ahead once linking starts.
+export class BuildProgress {
+  private totalSources: number
+  private compiled = 0
+  private phase = "Preparing"
+  private percent = 0
+
+  constructor(projectPath: string) {
+    this.totalSources = countSources(projectPath)
+  }
+
+  current(): RequestProgress {
+    return { phase: this.phase, percent: Math.round(this.percent) }
+  }
+
+  // Output arrives in chunks of one or more lines
+  update(output: string): RequestProgress {
+    for (const line of output.split("\n")) {
+      const match = PHASES.find((candidate) => candidate.pattern.test(line))
+      if (!match) continue
+
+      this.phase = match.phase
+      if (match.phase === "Compiling") {
+        this.compiled++
+        const share = this.totalSources > 0 ? Math.min(1, this.compiled / this.totalSources) : 0
+        this.percent = Math.max(this.percent, share * COMPILE_SHARE)
+      } else if (match.percent !== undefined) {
+        this.percent = Math.max(this.percent, match.percent)
+      }
+    }
+    return this.current()
+  }
+}
+
+function countSources(directory: string): number {
+  let count = 0
+  let dirents: fs.Dirent[]
+  try {
+    dirents = fs.readdirSync(directory, { withFileTypes: true })
+  } catch {
+    return 0
+  }
+
+  for (const dirent of dirents) {
+    if (dirent.isDirectory() && !SKIPPED_DIRECTORIES.has(dirent.name)) {
+      count += countSources(path.join(directory, dirent.name))
+    } else if (dirent.isFile() && SOURCE_EXTENSIONS.has(path.extname(dirent.name))) {
+      count++
+    }
+  }
+  return count
+}
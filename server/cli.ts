@@ -0,0 +1,293 @@
+#!/usr/bin/env node
+import * as fs from "fs"
+import * as net from "net"
+import * as tls from "tls"
+import { X509Certificate } from "crypto"
+import { runProcess } from "./process"
+import { Authenticator } from "./auth"
+import { iOSServer } from "./ios-server"
+import { logger } from "./logger"
+import {
+  DEFAULT_CONFIG_FILE,
+  DEFAULT_METRICS_HOST,
+  LOG_LEVELS,
+  loadServerConfig,
+  validateConfig,
+  type ServerConfig,
+} from "./config"
+import { XcodeBackend } from "./backends/xcodeBackend"
+import { FakeSimulatorBackend } from "./backends/fakeBackend"
+import type { SimulatorBackend } from "./backends/simulatorBackend"
+
+const USAGE = `Usage: ios-vscode-server [options]
+       ios-vscode-server issue-token <username> [options]
+
+Options:
+  -c, --config <file>            JSON or YAML config file (default ~/.ios-vscode-server/config.json)
+  -p, --port <port>              Port to listen on (default 8080)
+      --host <address>           Address to listen on (default all interfaces)
+      --tls-cert <file>          PEM certificate chain; serves wss:// together with --tls-key
+      --tls-key <file>           PEM private key
+      --project-root <dir>       Directory holding each user's projects (default ~/ios-vscode-projects)
+      --users-file <file>        Users and credentials (default ~/.ios-vscode-server/users.json)
+      --allowed-users <names>    Comma-separated users allowed to connect (default everyone in the users file)
+      --max-jobs <n>             Builds and deploys running at once (default 2)
+      --max-jobs-per-session <n> Builds and deploys running at once per client (default 1)
+      --log-level <level>        ${LOG_LEVELS.join(", ")} (default info)
+      --metrics-port <port>      Serve /healthz and /metrics on this port instead of the WebSocket port
+      --metrics-host <address>   Address the metrics port listens on (default 127.0.0.1)
+      --backend <name>           xcode or fake (default xcode)
+      --check                    Validate the configuration and Xcode tooling, then exit
+  -h, --help                     Show this help
+
+Settings on the command line override the config file.`
+
+// Command line flags that map directly onto a config setting
+const CONFIG_FLAGS: Record<string, { key: keyof ServerConfig; parse: (value: string) => unknown }> = {
+  "--port": { key: "port", parse: Number },
+  "-p": { key: "port", parse: Number },
+  "--host": { key: "host", parse: String },
+  "--tls-cert": { key: "tlsCert", parse: String },
+  "--tls-key": { key: "tlsKey", parse: String },
+  "--project-root": { key: "projectRoot", parse: String },
+  "--users-file": { key: "usersFile", parse: String },
+  "--allowed-users": { key: "allowedUsers", parse: (value) => value.split(",").map((name) => name.trim()) },
+  "--max-jobs": { key: "maxConcurrentJobs", parse: Number },
+  "--max-jobs-per-session": { key: "maxJobsPerSession", parse: Number },
+  "--log-level": { key: "logLevel", parse: String },
+  "--metrics-port": { key: "metricsPort", parse: Number },
+  "--metrics-host": { key: "metricsHost", parse: String },
+}
+
+interface CliOptions {
+  command: "serve" | "issue-token" | "check" | "help"
+  username?: string
+  configFile?: string
+  backend: "xcode" | "fake"
+  overrides: Record<string, unknown>
+}
+
+function parseArguments(args: string[]): CliOptions {
+  const options: CliOptions = {
+    command: "serve",
+    backend: process.env.IOS_VSCODE_BACKEND === "fake" ? "fake" : "xcode",
+    overrides: {},
+  }
+  // Kept from before the config file existed
+  if (process.env.IOS_VSCODE_USERS) {
+    options.overrides.usersFile = process.env.IOS_VSCODE_USERS
+  }
+
+  const value = (index: number): string => {
+    if (index >= args.length || args[index].startsWith("-")) {
+      throw new Error(`${args[index - 1]} needs a value`)
+    }
+    return args[index]
+  }
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+    if (arg === "issue-token") {
+      options.command = "issue-token"
+      options.username = value(++index)
+    } else if (arg === "--check") {
+      options.command = "check"
+    } else if (arg === "-h" || arg === "--help") {
+      options.command = "help"
+    } else if (arg === "-c" || arg === "--config") {
+      options.configFile = value(++index)
+    } else if (arg === "--backend") {
+      const backend = value(++index)
+      if (backend !== "xcode" && backend !== "fake") {
+        throw new Error(`Unknown backend ${backend}; expected xcode or fake`)
+      }
+      options.backend = backend
+    } else if (CONFIG_FLAGS[arg]) {
+      const flag = CONFIG_FLAGS[arg]
+      options.overrides[flag.key] = flag.parse(value(++index))
+    } else {
+      throw new Error(`Unknown argument ${arg}`)
+    }
+  }
+  return options
+}
+
+interface Check {
+  name: string
+  // Resolves with a detail to show, rejects when the check fails
+  run: () => Promise<string>
+}
+
+function configChecks(config: ServerConfig, backend: SimulatorBackend): Check[] {
+  const checks: Check[] = []
+
+  if (config.tlsCert && config.tlsKey) {
+    checks.push({
+      name: "TLS certificate",
+      run: async () => {
+        const cert = fs.readFileSync(config.tlsCert!)
+        // Fails when either file is unreadable or the key does not belong to the certificate
+        tls.createSecureContext({ cert, key: fs.readFileSync(config.tlsKey!) })
+        return `SHA-256 fingerprint ${new X509Certificate(cert).fingerprint256}`
+      },
+    })
+  }
+
+  checks.push({ name: `Port ${config.port}`, run: () => probePort(config.port, config.host) })
+  if (config.metricsPort !== undefined) {
+    checks.push({
+      name: `Metrics port ${config.metricsPort}`,
+      run: () => probePort(config.metricsPort!, config.metricsHost || DEFAULT_METRICS_HOST),
+    })
+  }
+
+  checks.push(
+    {
+      name: "Project root",
+      run: async () => {
+        if (!fs.existsSync(config.projectRoot)) {
+          throw new Error(`${config.projectRoot} does not exist`)
+        }
+        if (!fs.statSync(config.projectRoot).isDirectory()) {
+          throw new Error(`${config.projectRoot} is not a directory`)
+        }
+        try {
+          fs.accessSync(config.projectRoot, fs.constants.W_OK)
+        } catch {
+          throw new Error(`${config.projectRoot} is not writable`)
+        }
+        return config.projectRoot
+      },
+    },
+    {
+      name: "Users file",
+      run: async () => {
+        if (!fs.existsSync(config.usersFile)) {
+          throw new Error(`${config.usersFile} does not exist; create users with issue-token`)
+        }
+        const parsed = JSON.parse(fs.readFileSync(config.usersFile, "utf8"))
+        const users: Array<{ username: string }> = Array.isArray(parsed.users) ? parsed.users : []
+        const allowed = users.filter((user) => !config.allowedUsers || config.allowedUsers.includes(user.username))
+        if (allowed.length === 0) {
+          throw new Error(`no ${config.allowedUsers ? "allowed " : ""}users in ${config.usersFile}`)
+        }
+        return `${allowed.length} user${allowed.length === 1 ? "" : "s"} can connect`
+      },
+    },
+  )
+
+  if (backend instanceof XcodeBackend) {
+    checks.push({
+      name: "Developer directory",
+      run: async () => (await runProcess("xcode-select", ["-p"])).trim(),
+    })
+  }
+
+  checks.push(
+    {
+      name: "Xcode",
+      run: async () => {
+        const version = await backend.getXcodeVersion()
+        if (!version) {
+          throw new Error("xcodebuild -version failed; install Xcode and run xcode-select -s")
+        }
+        return version
+      },
+    },
+    {
+      name: "Simulators",
+      run: async () => {
+        const devices = await backend.listDevices()
+        if (devices.length === 0) {
+          throw new Error("simctl lists no available simulators")
+        }
+        return `${devices.length} available`
+      },
+    },
+  )
+  return checks
+}
+
+function probePort(port: number, host?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer()
+    probe.once("error", (error) => reject(new Error(`cannot listen: ${error.message}`)))
+    probe.listen(port, host, () => probe.close(() => resolve("available")))
+  })
+}
+
+async function runChecks(config: ServerConfig, backend: SimulatorBackend): Promise<boolean> {
+  let passed = true
+  for (const check of configChecks(config, backend)) {
+    try {
+      console.log(`✓ ${check.name}: ${await check.run()}`)
+    } catch (error) {
+      console.log(`✗ ${check.name}: ${(error as Error).message}`)
+      passed = false
+    }
+  }
+  return passed
+}
+
+// Resolves with the exit code, or null once the server is running
+export async function main(args: string[]): Promise<number | null> {
+  let options: CliOptions
+  let config: ServerConfig
+  try {
+    options = parseArguments(args)
+    if (options.command === "help") {
+      console.log(USAGE)
+      return 0
+    }
+
+    const configFile = options.configFile || process.env.IOS_VSCODE_CONFIG || DEFAULT_CONFIG_FILE
+    if (configFile !== DEFAULT_CONFIG_FILE && !fs.existsSync(configFile)) {
+      throw new Error(`Config file ${configFile} does not exist`)
+    }
+    config = loadServerConfig(configFile, validateConfig(options.overrides, process.cwd(), "command line"))
+  } catch (error) {
+    console.error((error as Error).message)
+    console.error("Run ios-vscode-server --help for usage")
+    return 1
+  }
+
+  if (options.command === "issue-token") {
+    const authenticator = new Authenticator(config.usersFile, config.projectRoot)
+    console.log(authenticator.issueToken(options.username!))
+    if (config.allowedUsers && !config.allowedUsers.includes(options.username!)) {
+      console.warn(`${options.username} is not in allowedUsers and cannot connect until added`)
+    }
+    return 0
+  }
+
+  const backend = options.backend === "fake" ? new FakeSimulatorBackend() : new XcodeBackend()
+  if (options.command === "check") {
+    return (await runChecks(config, backend)) ? 0 : 1
+  }
+
+  logger.setLevel(config.logLevel)
+  if (config.allowRawShell) {
+    logger.warn("Raw shell commands are enabled for all authenticated users")
+  }
+  const server = new iOSServer(config, backend)
+  try {
+    await server.listening
+  } catch (error) {
+    console.error(`Could not listen on ${config.host || "*"}:${config.port}: ${(error as Error).message}`)
+    await server.close()
+    return 1
+  }
+  return null
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      if (code !== null) process.exit(code)
+    },
+    (error) => {
+      console.error(`Failed to start server: ${error.message}`)
+      process.exit(1)
+    },
+  )
+}
@@ -0,0 +1,159 @@
+import * as fs from "fs"
+import * as path from "path"
+import { parse as parseYaml } from "yaml"
+
+const HOME = process.env.HOME || "/tmp"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+export interface ServerConfig {
+  port: number
+  // Address to listen on, e.g. 127.0.0.1 to only accept connections through an SSH tunnel. All interfaces when unset.
+  host?: string
+  // URL path of the WebSocket endpoint
+  path: string
+  // PEM certificate chain and private key; with both set the server speaks wss:// instead of ws://
+  tlsCert?: string
+  tlsKey?: string
+  // Users without a projectRoot of their own get <projectRoot>/<username>
+  projectRoot: string
+  // JSON file with the users and their token hashes and public keys, written by issue-token
+  usersFile: string
+  // Only these users of the users file may authenticate. Everyone in the file when unset.
+  allowedUsers?: string[]
+  // Where simulator screenshots are saved on the server
+  screenshotDirectory: string
+  logLevel: LogLevel
+  // Lets authenticated clients run arbitrary commands through run_shell. Off unless the admin opts in.
+  allowRawShell: boolean
+  // Negotiate permessage-deflate with clients that offer it
+  perMessageDeflate: boolean
+  // Builds, deploys and uploads running at once across all clients; the rest wait in a queue
+  maxConcurrentJobs: number
+  // Running jobs per client session. Builds of one session share DerivedData, so keep this at 1.
+  maxJobsPerSession: number
+  // /healthz and /metrics need no authentication. With metricsPort set they are served on their own plain
+  // HTTP listener bound to metricsHost (127.0.0.1 unless set) instead of on the WebSocket port, which keeps
+  // them off a port exposed to clients. Without it they are served on the WebSocket port as well.
+  metricsPort?: number
+  metricsHost?: string
+}
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  port: 8080,
+  path: "/ios-vscode",
+  projectRoot: path.join(HOME, "ios-vscode-projects"),
+  usersFile: path.join(HOME, ".ios-vscode-server", "users.json"),
+  screenshotDirectory: path.join(HOME, "Desktop"),
+  logLevel: "info",
+  allowRawShell: false,
+  perMessageDeflate: true,
+  maxConcurrentJobs: 2,
+  maxJobsPerSession: 1,
+}
+
+export const DEFAULT_METRICS_HOST = "127.0.0.1"
+
+export const DEFAULT_CONFIG_FILE = path.join(HOME, ".ios-vscode-server", "config.json")
+
+type FieldKind = "boolean" | "positiveInteger" | "port" | "string" | "path" | "urlPath" | "stringList" | "logLevel"
+
+const FIELDS: Record<keyof ServerConfig, FieldKind> = {
+  port: "port",
+  host: "string",
+  path: "urlPath",
+  tlsCert: "path",
+  tlsKey: "path",
+  projectRoot: "path",
+  usersFile: "path",
+  allowedUsers: "stringList",
+  screenshotDirectory: "path",
+  logLevel: "logLevel",
+  allowRawShell: "boolean",
+  perMessageDeflate: "boolean",
+  maxConcurrentJobs: "positiveInteger",
+  maxJobsPerSession: "positiveInteger",
+  metricsPort: "port",
+  metricsHost: "string",
+}
+
+// Reads a JSON or, for .yaml and .yml files, YAML config file. A missing file yields the defaults.
+export function loadServerConfig(configFile: string, overrides: Partial<ServerConfig> = {}): ServerConfig {
+  const fromFile = fs.existsSync(configFile) ? readConfigFile(configFile) : {}
+  const config = { ...DEFAULT_SERVER_CONFIG, ...fromFile, ...overrides }
+  if (!config.tlsCert !== !config.tlsKey) {
+    throw new Error("Invalid server config: tlsCert and tlsKey must be set together")
+  }
+  return config
+}
+
+function readConfigFile(configFile: string): Partial<ServerConfig> {
+  const source = fs.readFileSync(configFile, "utf8")
+  let parsed: unknown
+  try {
+    parsed = /\.ya?ml$/i.test(configFile) ? parseYaml(source) : JSON.parse(source)
+  } catch (error) {
+    // YAML errors end with the offending line and a caret under the column
+    throw new Error(`Invalid server config in ${configFile}: ${(error as Error).message.trimEnd()}`)
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid server config in ${configFile}: expected an object`)
+  }
+  // Relative paths in a config file are relative to the file, not to where the server was started
+  return validateConfig(parsed as Record<string, unknown>, path.dirname(path.resolve(configFile)), configFile)
+}
+
+// Checks values from a config file or the command line and drops the ones that are not set
+export function validateConfig(
+  values: Record<string, unknown>,
+  baseDirectory: string,
+  source: string,
+): Partial<ServerConfig> {
+  const config: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(values)) {
+    const kind = FIELDS[key as keyof ServerConfig]
+    if (!kind) {
+      throw new Error(`Invalid server config in ${source}: unknown setting ${key}`)
+    }
+    if (value === undefined || value === null) continue
+
+    const problem = checkValue(kind, value)
+    if (problem) {
+      throw new Error(`Invalid server config in ${source}: ${key} ${problem}`)
+    }
+    config[key] = kind === "path" ? resolvePath(value as string, baseDirectory) : value
+  }
+  return config as Partial<ServerConfig>
+}
+
+function checkValue(kind: FieldKind, value: unknown): string | null {
+  switch (kind) {
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be a boolean"
+    case "positiveInteger":
+      return Number.isInteger(value) && (value as number) >= 1 ? null : "must be a positive integer"
+    case "port":
+      return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 65535
+        ? null
+        : "must be a port number"
+    case "string":
+    case "path":
+      return typeof value === "string" && value !== "" ? null : "must be a non-empty string"
+    case "urlPath":
+      return typeof value === "string" && value.startsWith("/") ? null : "must start with /"
+    case "stringList":
+      return Array.isArray(value) && value.every((item) => typeof item === "string")
+        ? null
+        : "must be a list of strings"
+    case "logLevel":
+      return LOG_LEVELS.includes(value as LogLevel) ? null : `must be one of ${LOG_LEVELS.join(", ")}`
+  }
+}
+
+function resolvePath(value: string, baseDirectory: string): string {
+  if (value === "~" || value.startsWith("~/")) {
+    return path.join(HOME, value.slice(1))
+  }
+  return path.resolve(baseDirectory, value)
+}
@@ -0,0 +1,140 @@
+// Frames sent but not yet acknowledged before capturing pauses
+const MAX_IN_FLIGHT = 2
+// Time from sending a frame to the client having drawn it that the frame rate adapts towards
+const TARGET_LATENCY = 150
+const MIN_FPS = 2
+// A client that stops acknowledging, e.g. with its panel hidden, drops to MIN_FPS instead of stalling the stream
+const ACK_TIMEOUT = 5000
+// Wait after a failed capture, e.g. while the simulator boots
+const ERROR_DELAY = 1000
+// Every capture spawns simctl, so while the screen stays the same the interval doubles per unchanged
+// frame up to this, until the screen changes or the client sends input
+const MAX_IDLE_INTERVAL = 2000
+
+type WakeReason = "ack" | "input" | "stop"
+
+export interface FrameStreamOptions {
+  // Resolves with the current screen as a PNG
+  capture: () => Promise<Buffer>
+  send: (image: Buffer, sequence: number) => void
+  onError: (error: Error) => void
+  maxFps: number
+}
+
+// Captures the simulator screen in a loop and sends a frame only when it differs from the last one.
+// At most MAX_IN_FLIGHT frames wait for the client's acknowledgement at a time, and the frame rate
+// follows the measured acknowledgement latency: it drops by a quarter while latency is above
+// TARGET_LATENCY and climbs back one frame per second at a time while it is well below. An idle
+// screen is captured less and less often, down to once every MAX_IDLE_INTERVAL.
+export class FrameStream {
+  private fps: number
+  private running = false
+  private sequence = 0
+  // Send time of each unacknowledged frame, by sequence
+  private inFlight = new Map<number, number>()
+  // Smoothed acknowledgement latency in ms
+  private latency: number | null = null
+  private lastImage: Buffer | null = null
+  // Captures in a row that matched the last frame sent
+  private unchangedFrames = 0
+  private wake: ((reason: WakeReason) => void) | null = null
+
+  constructor(private options: FrameStreamOptions) {
+    this.fps = options.maxFps
+  }
+
+  get currentFps(): number {
+    return Math.round(this.fps)
+  }
+
+  start(): void {
+    if (this.running) return
+    this.running = true
+    void this.loop()
+  }
+
+  stop(): void {
+    this.running = false
+    this.wake?.("stop")
+  }
+
+  // Captures at the full frame rate again, e.g. after the client tapped the screen
+  refresh(): void {
+    this.unchangedFrames = 0
+    this.wake?.("input")
+  }
+
+  // Acknowledges this frame and any earlier ones, which the client skipped or drew before it
+  ack(sequence: number): void {
+    const sentAt = this.inFlight.get(sequence)
+    if (sentAt === undefined) return
+
+    for (const pending of [...this.inFlight.keys()]) {
+      if (pending <= sequence) this.inFlight.delete(pending)
+    }
+
+    const sample = Date.now() - sentAt
+    this.latency = this.latency === null ? sample : this.latency * 0.8 + sample * 0.2
+    if (this.latency > TARGET_LATENCY) {
+      this.fps = Math.max(MIN_FPS, this.fps * 0.75)
+    } else if (this.latency < TARGET_LATENCY / 2) {
+      this.fps = Math.min(this.options.maxFps, this.fps + 1)
+    }
+    this.wake?.("ack")
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      if (this.inFlight.size >= MAX_IN_FLIGHT) {
+        if (!(await this.sleep(ACK_TIMEOUT, "ack"))) {
+          this.inFlight.clear()
+          this.fps = MIN_FPS
+        }
+        continue
+      }
+
+      const startedAt = Date.now()
+      try {
+        const image = await this.options.capture()
+        if (this.lastImage && image.equals(this.lastImage)) {
+          this.unchangedFrames++
+        } else if (this.running) {
+          this.unchangedFrames = 0
+          this.lastImage = image
+          const sequence = ++this.sequence
+          this.inFlight.set(sequence, Date.now())
+          this.options.send(image, sequence)
+        }
+      } catch (error) {
+        this.options.onError(error as Error)
+        await this.sleep(ERROR_DELAY)
+        continue
+      }
+
+      // Capturing counts towards the frame interval
+      const interval = Math.min(MAX_IDLE_INTERVAL, (1000 / this.fps) * 2 ** this.unchangedFrames)
+      await this.sleep(interval - (Date.now() - startedAt), this.unchangedFrames > 0 ? "input" : undefined)
+    }
+  }
+
+  // Resolves true when woken by stop or wakeOn, false when the time ran out. Other waits are not
+  // cut short so acks and input do not speed up the frame rate.
+  private sleep(ms: number, wakeOn?: WakeReason): Promise<boolean> {
+    if (!this.running) return Promise.resolve(true)
+    return new Promise((resolve) => {
+      const timer = setTimeout(
+        () => {
+          this.wake = null
+          resolve(false)
+        },
+        Math.max(0, ms),
+      )
+      this.wake = (reason) => {
+        if (reason !== "stop" && reason !== wakeOn) return
+        clearTimeout(timer)
+        this.wake = null
+        resolve(true)
+      }
+    })
+  }
+}
@@ -1,71 +1,399 @@
 // This file would run on the macOS server
 import * as WebSocket from "ws"
 import * as http from "http"
+import * as https from "https"
 import * as fs from "fs"
 import * as path from "path"
-import { spawn, type ChildProcess } from "child_process"
+import * as os from "os"
+import { X509Certificate, createHash, randomBytes } from "crypto"
+import { runProcess } from "./process"
+import { Authenticator, type UserRecord } from "./auth"
+import { readPngSize } from "./png"
+import { parsePlist } from "./plist"
+import { PathResolutionError, resolveProjectPath } from "./pathResolver"
+import { ManifestCache, SERVER_DIRECTORY } from "./manifest"
+import { OutputWatcher } from "./outputWatcher"
+import { BuildProgress } from "./buildProgress"
+import { JobScheduler, type RunningJob } from "./jobScheduler"
+import { FrameStream } from "./frameStream"
+import { checkLldbCommand, quoteLldbArgument } from "./lldb"
+import { logger, withLogFields } from "./logger"
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./metrics"
+import { createDefaultOperations, type OperationRegistry } from "./operations"
+import { DEFAULT_METRICS_HOST, DEFAULT_SERVER_CONFIG, type ServerConfig } from "./config"
+import { XcodeBackend } from "./backends/xcodeBackend"
+import type {
+  BuildOutputHandler,
+  BuildRequest,
+  BuildResult,
+  DebuggerSession,
+  SimulatorBackend,
+} from "./backends/simulatorBackend"
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  encodeBinaryMessage,
+  negotiateVersion,
+  parseBinaryRequest,
+  parseRequest,
+  responseType,
+  type EventMap,
+  type EventType,
+  type FileError,
+  type JobPriority,
+  type RequestData,
+  type RequestMessage,
+  type RequestProgress,
+  type RequestType,
+  type ResponseData,
+  type CertificateInfo,
+  type PhysicalDeviceInfo,
+  type ProvisioningProfileInfo,
+  type SimulatorInfo,
+  type SyncedFile,
+} from "../src/shared/protocol"
+import { globToRegExp } from "../src/shared/glob"
+
+const SERVER_VERSION = "0.0.1"
+const MAX_AUTH_FAILURES = 5
+const UNAUTHENTICATED_TYPES = new Set<string>(["hello", "auth_challenge", "authenticate", "resume"])
+// How long a disconnected session is kept so the client can resume it
+const SESSION_RESUME_WINDOW = 5 * 60 * 1000
+// Upper bound for the frame rate clients may ask a frame stream for
+const MAX_STREAM_FPS = 30
+// Requests that run as jobs in the queue. Hot reload goes first, archives and uploads last.
+const JOB_PRIORITIES: Partial<Record<RequestType, JobPriority>> = {
+  incremental_build: "high",
+  swiftui_preview_update: "high",
+  asset_update: "high",
+  build_project: "normal",
+  run_project: "normal",
+  start_debug_session: "normal",
+  build_for_deployment: "normal",
+  deploy_to_target: "normal",
+  build_for_appstore: "low",
+  upload_to_appstore: "low",
+}
 
 interface ClientSession {
   id: string
   username: string
   projectPath: string
+  // The socket the session is attached to; stays set to the closed socket while detached
   websocket: WebSocket
+  resumeToken: string
+  expiryTimer?: NodeJS.Timeout
+  selectedDevice?: string
+  // Subdirectory builds run in when the client syncs several workspace folders
+  buildPath?: string
+  // Scheme builds use; the project's first scheme when unset
+  scheme?: string
+  lastBuild?: BuildProduct
+  debugSessions: Map<string, DebuggerSession>
+  breakpoints: Map<string, BreakpointSpec>
+  watchExpressions: string[]
+  // Hash of each file's content as the client last saw it, so files are not echoed back to it
+  fileHashes: Map<string, string>
+  outputWatcher?: OutputWatcher
+  // Pushes simulator frames while the client's simulator panel is open
+  frameStream?: FrameStream
+}
+
+interface BuildProduct {
+  appPath: string
+  bundleId: string
+  destination: "simulator" | "device"
+  targetId?: string
+  configuration: string
+}
+
+// Lets a request handler stop when the client cancels and report progress on the request
+interface RequestContext {
+  signal: AbortSignal
+  report: (progress: RequestProgress) => void
+}
+
+interface BreakpointSpec {
+  id: string
+  file: string
+  line: number
+  condition?: string
+  enabled: boolean
 }
 
 export class iOSServer {
-  private server: http.Server
+  // Resolves once the server accepts connections, rejects when it cannot listen, e.g. with EADDRINUSE
+  readonly listening: Promise<void>
+  private server: http.Server | https.Server
+  // Serves /healthz and /metrics when they have a port of their own
+  private metricsServer: http.Server | null = null
   private wss: WebSocket.Server
   private clients: Map<string, ClientSession> = new Map()
-  private simulatorProcess: ChildProcess | null = null
-  private buildProcess: ChildProcess | null = null
+  // Protocol version each socket negotiated in hello
+  private negotiatedVersions: Map<WebSocket, number> = new Map()
+  private authChallenges: Map<WebSocket, { username: string; challenge: string; expires: number }> = new Map()
+  private authFailures: Map<WebSocket, number> = new Map()
+  private jobs: JobScheduler
+  // Requests that are still running, by session id and request id, so cancel can stop them even
+  // after the client resumed the session on a new socket
+  private runningRequests: Map<string, Map<string, AbortController>> = new Map()
+  private xcodeVersion: string | null = null
+  private manifests = new ManifestCache()
+  private metrics = new MetricsRegistry()
+  private requestCount = this.metrics.register(
+    new Counter("ios_vscode_requests_total", "Client requests handled, by type and outcome"),
+  )
+  private requestDuration = this.metrics.register(
+    new Histogram("ios_vscode_request_duration_seconds", "Time from receiving a request to answering it, by type"),
+  )
+  private buildDuration = this.metrics.register(
+    new Histogram("ios_vscode_build_duration_seconds", "xcodebuild run time, by platform, action and outcome"),
+  )
+  private framesSent = this.metrics.register(
+    new Counter("ios_vscode_frames_sent_total", "Simulator frames sent to clients; rate() of it is the frame rate"),
+  )
+  private frameCaptureDuration = this.metrics.register(
+    new Histogram(
+      "ios_vscode_frame_capture_seconds",
+      "Time to capture a simulator frame",
+      [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2],
+    ),
+  )
+
+  constructor(
+    private config: ServerConfig = DEFAULT_SERVER_CONFIG,
+    private backend: SimulatorBackend = new XcodeBackend(),
+    private authenticator: Authenticator = new Authenticator(config.usersFile, config.projectRoot, config.allowedUsers),
+    private operations: OperationRegistry = createDefaultOperations(),
+  ) {
+    this.jobs = new JobScheduler(this.config, () => this.broadcastJobs())
+    const cert = this.config.tlsCert && fs.readFileSync(this.config.tlsCert)
+    const tls = !!cert && !!this.config.tlsKey
+    this.server = tls ? https.createServer({ cert, key: fs.readFileSync(this.config.tlsKey!) }) : http.createServer()
+    this.wss = new WebSocket.Server({
+      server: this.server,
+      path: this.config.path,
+      // Small messages are not worth the CPU of compressing
+      perMessageDeflate: this.config.perMessageDeflate ? { threshold: 1024 } : false,
+    })
 
-  constructor(port = 8080) {
-    this.server = http.createServer()
-    this.wss = new WebSocket.Server({ server: this.server, path: "/ios-vscode" })
+    this.metrics.register(
+      new Gauge("ios_vscode_sessions", "Client sessions, including detached ones waiting to be resumed", () => [
+        { value: this.clients.size },
+      ]),
+    )
+    this.metrics.register(
+      new Gauge("ios_vscode_jobs", "Builds, deploys and uploads, by state", () => {
+        const jobs = this.jobs.list()
+        return (["queued", "running"] as const).map((state) => ({
+          labels: { state },
+          value: jobs.filter((job) => job.state === state).length,
+        }))
+      }),
+    )
+    this.metrics.register(
+      new Gauge("ios_vscode_frame_streams", "Frame streams running", () => [
+        { value: [...this.clients.values()].filter((session) => session.frameStream).length },
+      ]),
+    )
 
     this.setupWebSocketHandlers()
-    this.server.listen(port, () => {
-      console.log(`iOS VS Code Server listening on port ${port}`)
+    if (this.config.metricsPort === undefined) {
+      this.server.on("request", (request, response) => this.handleHttpRequest(request, response))
+    } else {
+      this.server.on("request", (_request, response) => response.writeHead(404).end())
+      this.listenForMetrics(this.config.metricsPort, this.config.metricsHost || DEFAULT_METRICS_HOST)
+    }
+    this.listening = new Promise((resolve, reject) => {
+      this.server.once("listening", resolve)
+      // ws re-emits the HTTP server's errors on the WebSocket server
+      this.wss.on("error", (error) => (this.server.listening ? logger.error("Server error", error) : reject(error)))
+    })
+    this.server.listen(this.config.port, this.config.host, () => {
+      const address = `${tls ? "wss" : "ws"}://${this.config.host || "*"}:${this.config.port}${this.config.path}`
+      logger.info("Server listening", { address, backend: this.backend.name })
+      if (cert) {
+        // Clients connecting directly pin this on first use
+        logger.info("TLS certificate loaded", { fingerprint: new X509Certificate(cert).fingerprint256 })
+      }
+    })
+  }
+
+  // Disconnects every client, ends their sessions and stops listening
+  close(): Promise<void> {
+    for (const session of this.clients.values()) {
+      clearTimeout(session.expiryTimer)
+      session.frameStream?.stop()
+      this.destroySession(session)
+    }
+    this.wss.clients.forEach((ws) => ws.terminate())
+    this.wss.close()
+    this.metricsServer?.close()
+    if (!this.server.listening) {
+      return Promise.resolve()
+    }
+    return new Promise((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())))
+  }
+
+  private listenForMetrics(port: number, host: string): void {
+    this.metricsServer = http.createServer((request, response) => this.handleHttpRequest(request, response))
+    this.metricsServer.on("error", (error) => logger.error("Metrics listener failed", error))
+    this.metricsServer.listen(port, host, () => {
+      logger.info("Serving /healthz and /metrics", { address: `http://${host}:${port}` })
     })
   }
 
+  // Plain HTTP endpoints for monitoring. WebSocket upgrades never get here.
+  private async handleHttpRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const pathname = new URL(request.url || "/", "http://localhost").pathname
+    try {
+      if (request.method !== "GET") {
+        response.writeHead(405, { Allow: "GET" }).end()
+      } else if (pathname === "/healthz") {
+        const health = await this.getHealth()
+        response.writeHead(health.status === "ok" ? 200 : 503, { "Content-Type": "application/json" })
+        response.end(JSON.stringify(health))
+      } else if (pathname === "/metrics") {
+        response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" })
+        response.end(this.metrics.render())
+      } else {
+        response.writeHead(404).end()
+      }
+    } catch (error) {
+      logger.error("HTTP request failed", { path: pathname, error: (error as Error).message })
+      if (!response.headersSent) response.writeHead(500)
+      response.end()
+    }
+  }
+
+  // Degraded when Xcode or simctl do not work, since no build or simulator request can succeed then
+  private async getHealth() {
+    const xcodeVersion = await this.getXcodeVersion()
+    let bootedSimulators: SimulatorInfo[] | null = null
+    try {
+      bootedSimulators = (await this.backend.listDevices()).filter((device) => device.state === "Booted")
+    } catch (error) {
+      logger.warn("Listing simulators for the health check failed", error)
+    }
+    const jobs = this.jobs.list()
+
+    return {
+      status: xcodeVersion && bootedSimulators ? "ok" : "degraded",
+      serverVersion: SERVER_VERSION,
+      backend: this.backend.name,
+      xcodeVersion,
+      bootedSimulators: bootedSimulators?.map(({ id, name, runtime }) => ({ id, name, runtime })) ?? null,
+      queueDepth: jobs.filter((job) => job.state === "queued").length,
+      runningJobs: jobs.filter((job) => job.state === "running").length,
+      sessions: this.clients.size,
+      uptime: Math.round(process.uptime()),
+    }
+  }
+
+  // The Xcode version only changes when Xcode is updated, so it is looked up once it is found.
+  // While Xcode is missing every call looks again, so installing it needs no server restart.
+  private async getXcodeVersion(): Promise<string | null> {
+    this.xcodeVersion = this.xcodeVersion || (await this.backend.getXcodeVersion())
+    return this.xcodeVersion
+  }
+
   private setupWebSocketHandlers(): void {
-    this.wss.on("connection", (ws: WebSocket) => {
-      console.log("New client connected")
+    this.wss.on("connection", (ws: WebSocket, request: http.IncomingMessage) => {
+      logger.info("Client connected", { address: request.socket.remoteAddress })
 
-      ws.on("message", (data: WebSocket.Data) => {
+      ws.on("message", (data: WebSocket.Data, isBinary: boolean) => {
+        let message: RequestMessage
+        let payload: Buffer | undefined
         try {
-          const message = JSON.parse(data.toString())
-          this.handleClientMessage(ws, message)
+          if (isBinary) {
+            ;({ message, payload } = parseBinaryRequest(data as Buffer))
+          } else {
+            message = parseRequest(data.toString())
+          }
         } catch (error) {
-          console.error("Failed to parse client message:", error)
-          this.sendError(ws, "Invalid message format")
+          logger.warn("Failed to parse client message", error)
+          this.sendError(ws, (error as Error).message, (error as ProtocolError).id)
+          return
         }
+        const session = this.getClientSession(ws)
+        withLogFields({ sessionId: session?.id, requestId: message.id, type: message.type }, () =>
+          this.handleClientMessage(ws, message, payload),
+        )
       })
 
       ws.on("close", () => {
-        console.log("Client disconnected")
+        logger.info("Client disconnected", { sessionId: this.getClientSession(ws)?.id })
         this.removeClient(ws)
       })
 
-      ws.on("error", (error) => {
-        console.error("WebSocket error:", error)
+      ws.on("error", (error: Error) => {
+        logger.error("WebSocket error", error)
         this.removeClient(ws)
       })
     })
   }
 
-  private async handleClientMessage(ws: WebSocket, message: any): Promise<void> {
-    const { type, data, id } = message
+  private async handleClientMessage(ws: WebSocket, message: RequestMessage, payload?: Buffer): Promise<void> {
+    const { type, data, id } = message as RequestMessage<any>
+    const startedAt = Date.now()
+    let outcome: "ok" | "error" | "cancelled" = "ok"
+    const abort = new AbortController()
+    // Requests sent before authenticating finish quickly and cannot be cancelled
+    const sessionId = this.getClientSession(ws)?.id
+    if (id && sessionId) this.trackRequest(sessionId, id, abort)
+    let job: RunningJob | undefined
+    let context: RequestContext = {
+      signal: abort.signal,
+      report: (progress) => {
+        if (id && !abort.signal.aborted) {
+          this.sendMessage(ws, "progress", progress, id)
+        }
+      },
+    }
 
     try {
+      if (type !== "hello" && !this.negotiatedVersions.has(ws)) {
+        throw new ProtocolError("Protocol handshake required: send hello before any other message")
+      }
+      if (!UNAUTHENTICATED_TYPES.has(type) && !this.getClientSession(ws)) {
+        throw new Error("Not authenticated")
+      }
+
+      const priority = JOB_PRIORITIES[type as RequestType]
+      if (priority) {
+        const session = this.getClientSession(ws)!
+        job = await this.jobs.enqueue({
+          type,
+          sessionId: session.id,
+          username: session.username,
+          priority,
+          signal: abort.signal,
+          onQueued: (queuePosition) => context.report({ phase: "Queued", queuePosition }),
+        })
+        // cancel_job stops the job through its own signal, which also follows the request's
+        context = { ...context, signal: job.signal }
+      }
+
       let response: any = {}
 
       switch (type) {
+        case "hello":
+          response = await this.handleHello(ws, data)
+          break
+
+        case "auth_challenge":
+          response = await this.handleAuthChallenge(ws, data)
+          break
+
         case "authenticate":
           response = await this.handleAuthenticate(ws, data)
           break
 
+        case "resume":
+          response = await this.handleResume(ws, data)
+          break
+
         case "sync_file":
           response = await this.handleSyncFile(ws, data)
           break
@@ -78,6 +406,38 @@ export class iOSServer {
           response = await this.handleDeleteFile(ws, data)
           break
 
+        case "get_manifest":
+          response = await this.handleGetManifest(ws)
+          break
+
+        case "delete_files":
+          response = await this.handleDeleteFiles(ws, data)
+          break
+
+        case "sync_file_chunk":
+          response = await this.handleSyncFileChunk(ws, data, payload)
+          break
+
+        case "watch_files":
+          response = await this.handleWatchFiles(ws, data)
+          break
+
+        case "set_build_folder":
+          response = await this.handleSetBuildFolder(ws, data)
+          break
+
+        case "cancel":
+          response = this.handleCancel(ws, data)
+          break
+
+        case "list_jobs":
+          response = { jobs: this.jobs.list() }
+          break
+
+        case "cancel_job":
+          response = { cancelled: this.jobs.cancel(data.jobId, this.getClientSession(ws)!.username) }
+          break
+
         case "get_devices":
           response = await this.handleGetDevices()
           break
@@ -87,65 +447,326 @@ export class iOSServer {
           break
 
         case "build_project":
-          response = await this.handleBuildProject(ws)
+          response = await this.handleBuildProject(ws, context)
           break
 
         case "run_project":
-          response = await this.handleRunProject(ws)
+          response = await this.handleRunProject(ws, context)
           break
 
         case "simulator_input":
-          response = await this.handleSimulatorInput(data)
+          response = await this.handleSimulatorInput(ws, data)
           break
 
         case "deploy_device":
           response = await this.handleDeployDevice(ws)
           break
 
-        case "execute_command":
-          response = await this.handleExecuteCommand(data)
+        case "ping":
+          response = await this.handlePing(data)
+          break
+
+        case "list_operations":
+          response = { operations: this.operations.list() }
+          break
+
+        case "run_operation":
+          response = await this.handleRunOperation(ws, data, context)
+          break
+
+        case "run_shell":
+          response = await this.handleRunShell(ws, data, context)
           break
 
         case "request_frame":
           response = await this.handleRequestFrame(ws, data)
           break
 
+        case "start_frame_stream":
+          response = await this.handleStartFrameStream(ws, data)
+          break
+
+        case "stop_frame_stream":
+          response = await this.handleStopFrameStream(ws)
+          break
+
+        case "frame_ack":
+          // Sent for every frame, so it gets no response
+          this.getClientSession(ws)?.frameStream?.ack(data.sequence)
+          return
+
+        case "get_simulators":
+          response = await this.handleGetSimulators()
+          break
+
+        case "get_physical_devices":
+          response = await this.handleGetPhysicalDevices()
+          break
+
+        case "get_certificates":
+          response = await this.handleGetCertificates()
+          break
+
+        case "get_provisioning_profiles":
+          response = await this.handleGetProvisioningProfiles()
+          break
+
+        case "build_for_deployment":
+          response = await this.handleBuildForDeployment(ws, data, context)
+          break
+
+        case "deploy_to_target":
+          response = await this.handleDeployToTarget(ws, data, context)
+          break
+
+        case "build_for_appstore":
+          response = await this.handleBuildForAppStore(ws, data, context)
+          break
+
+        case "upload_to_appstore":
+          response = await this.handleUploadToAppStore(ws, data, context)
+          break
+
+        case "incremental_build":
+          response = await this.handleIncrementalBuild(ws, data, context)
+          break
+
+        case "apply_incremental_update":
+          response = await this.handleApplyIncrementalUpdate(ws, data)
+          break
+
+        case "swiftui_preview_update":
+          response = await this.handleSwiftUIPreviewUpdate(ws, data, context)
+          break
+
+        case "asset_update":
+          response = await this.handleAssetUpdate(ws, data, context)
+          break
+
+        case "start_debug_session":
+          response = await this.handleStartDebugSession(ws, data, context)
+          break
+
+        case "stop_debug_session":
+          response = await this.handleStopDebugSession(ws, data)
+          break
+
+        case "add_breakpoint":
+          response = await this.handleAddBreakpoint(ws, data)
+          break
+
+        case "remove_breakpoint":
+          response = await this.handleRemoveBreakpoint(ws, data)
+          break
+
+        case "add_watch_expression":
+          response = await this.handleAddWatchExpression(ws, data)
+          break
+
+        case "remove_watch_expression":
+          response = await this.handleRemoveWatchExpression(ws, data)
+          break
+
         default:
-          throw new Error(`Unknown message type: ${type}`)
+          throw new ProtocolError(`Unknown message type: ${type}`)
       }
 
+      if (abort.signal.aborted) {
+        outcome = "cancelled"
+        return
+      }
       this.sendResponse(ws, type, response, id)
     } catch (error) {
-      console.error(`Error handling ${type}:`, error)
-      this.sendError(ws, error.message, id)
+      outcome = abort.signal.aborted || job?.cancelReason ? "cancelled" : "error"
+      if (abort.signal.aborted) {
+        logger.info("Request cancelled")
+        return
+      }
+      logger.error("Request failed", error)
+      if (error instanceof PathResolutionError) {
+        this.sendError(ws, error.message, id, { code: error.code, path: error.path })
+      } else if (job?.cancelReason) {
+        this.sendError(ws, job.cancelReason, id)
+      } else {
+        this.sendError(ws, (error as Error).message, id)
+      }
+
+      if (type === "hello") {
+        ws.close(1002, "Protocol version mismatch")
+      }
+    } finally {
+      job?.finish()
+      if (id && sessionId) this.untrackRequest(sessionId, id)
+      this.requestCount.inc({ type, outcome })
+      this.requestDuration.observeSince({ type }, startedAt)
     }
   }
 
-  private async handleAuthenticate(ws: WebSocket, data: any): Promise<any> {
-    const sessionId = Math.random().toString(36).substr(2, 9)
-    const projectPath = path.join(process.env.HOME || "/tmp", "ios-vscode-projects", data.username)
+  private trackRequest(sessionId: string, id: string, abort: AbortController): void {
+    let requests = this.runningRequests.get(sessionId)
+    if (!requests) {
+      requests = new Map()
+      this.runningRequests.set(sessionId, requests)
+    }
+    requests.set(id, abort)
+  }
 
-    // Create project directory if it doesn't exist
+  private untrackRequest(sessionId: string, id: string): void {
+    const requests = this.runningRequests.get(sessionId)
+    requests?.delete(id)
+    if (requests?.size === 0) {
+      this.runningRequests.delete(sessionId)
+    }
+  }
+
+  // Aborting the request's signal kills the processes it started, such as xcodebuild
+  private handleCancel(ws: WebSocket, data: RequestData<"cancel">): ResponseData<"cancel"> {
+    const session = this.getClientSession(ws)!
+    const abort = this.runningRequests.get(session.id)?.get(data.requestId)
+    if (!abort) {
+      return { cancelled: false }
+    }
+    abort.abort()
+    return { cancelled: true }
+  }
+
+  private broadcastJobs(): void {
+    const jobs = this.jobs.list()
+    for (const session of this.clients.values()) {
+      this.sendMessage(session.websocket, "jobs_changed", { jobs })
+    }
+  }
+
+  private async handleHello(ws: WebSocket, data: RequestData<"hello">): Promise<ResponseData<"hello">> {
+    // Clients from before minProtocolVersion was sent shared our minimum
+    const minVersion = data.minProtocolVersion ?? MIN_PROTOCOL_VERSION
+    const version = negotiateVersion(data.protocolVersion, minVersion)
+    if (version === null) {
+      throw new ProtocolError(
+        `Client protocol versions ${Math.min(minVersion, data.protocolVersion)}-${data.protocolVersion} ` +
+          `are not supported by this server (supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`,
+      )
+    }
+
+    this.negotiatedVersions.set(ws, version)
+    return {
+      protocolVersion: PROTOCOL_VERSION,
+      minProtocolVersion: MIN_PROTOCOL_VERSION,
+      serverVersion: SERVER_VERSION,
+    }
+  }
+
+  private async handleAuthChallenge(
+    ws: WebSocket,
+    data: RequestData<"auth_challenge">,
+  ): Promise<ResponseData<"auth_challenge">> {
+    const challenge = this.authenticator.createChallenge()
+    this.authChallenges.set(ws, { username: data.username, challenge, expires: Date.now() + 60000 })
+    return { challenge }
+  }
+
+  private async handleAuthenticate(
+    ws: WebSocket,
+    data: RequestData<"authenticate">,
+  ): Promise<ResponseData<"authenticate">> {
+    if (this.getClientSession(ws)) {
+      throw new Error("Already authenticated")
+    }
+
+    let user: UserRecord | null = null
+    if (data.token) {
+      user = this.authenticator.verifyToken(data.username, data.token)
+    } else if (data.signature) {
+      // Challenges are single use
+      const pending = this.authChallenges.get(ws)
+      this.authChallenges.delete(ws)
+      if (pending && pending.username === data.username && pending.expires > Date.now()) {
+        user = this.authenticator.verifySignature(data.username, pending.challenge, data.signature)
+      }
+    }
+
+    if (!user) {
+      const failures = (this.authFailures.get(ws) || 0) + 1
+      this.authFailures.set(ws, failures)
+      logger.warn("Authentication failed", { username: data.username, failures, maxFailures: MAX_AUTH_FAILURES })
+
+      if (failures >= MAX_AUTH_FAILURES) {
+        setImmediate(() => ws.close(1008, "Too many authentication failures"))
+      }
+      throw new Error("Authentication failed")
+    }
+
+    this.authFailures.delete(ws)
+
+    const sessionId = randomBytes(16).toString("hex")
+    const projectRoot = this.authenticator.getProjectRoot(user)
+
+    // Create project directory if it doesn't exist, readable only by the server user
+    if (!fs.existsSync(projectRoot)) {
+      fs.mkdirSync(projectRoot, { recursive: true, mode: 0o700 })
+    }
+
+    const projectPath = data.project ? resolveProjectPath(projectRoot, data.project) : projectRoot
     if (!fs.existsSync(projectPath)) {
-      fs.mkdirSync(projectPath, { recursive: true })
+      fs.mkdirSync(projectPath, { recursive: true, mode: 0o700 })
     }
 
     const session: ClientSession = {
       id: sessionId,
-      username: data.username,
+      username: user.username,
       projectPath,
       websocket: ws,
+      resumeToken: randomBytes(32).toString("base64url"),
+      debugSessions: new Map(),
+      breakpoints: new Map(),
+      watchExpressions: [],
+      fileHashes: new Map(),
     }
 
     this.clients.set(sessionId, session)
-    return { sessionId, projectPath }
+    return { sessionId, projectPath, resumeToken: session.resumeToken }
   }
 
-  private async handleSyncFile(ws: WebSocket, data: any): Promise<any> {
+  // Reattaches a reconnecting client to its existing session, keeping the selected device,
+  // running build and debug sessions. Resume tokens are single use.
+  private async handleResume(ws: WebSocket, data: RequestData<"resume">): Promise<ResponseData<"resume">> {
+    if (this.getClientSession(ws)) {
+      throw new Error("Already authenticated")
+    }
+
+    const session = Array.from(this.clients.values()).find((candidate) => candidate.resumeToken === data.resumeToken)
+    if (!session) {
+      const failures = (this.authFailures.get(ws) || 0) + 1
+      this.authFailures.set(ws, failures)
+      if (failures >= MAX_AUTH_FAILURES) {
+        setImmediate(() => ws.close(1008, "Too many authentication failures"))
+      }
+      throw new Error("Session expired or unknown")
+    }
+
+    const previousSocket = session.websocket
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer)
+      session.expiryTimer = undefined
+    }
+    session.websocket = ws
+    session.resumeToken = randomBytes(32).toString("base64url")
+    this.authFailures.delete(ws)
+
+    // The client may reconnect before the server notices the old socket is gone
+    if (previousSocket !== ws && previousSocket.readyState === WebSocket.OPEN) {
+      previousSocket.close(1000, "Session resumed on another connection")
+    }
+
+    logger.info("Session resumed", { sessionId: session.id, username: session.username })
+    return { sessionId: session.id, projectPath: session.projectPath, resumeToken: session.resumeToken }
+  }
+
+  private async handleSyncFile(ws: WebSocket, data: RequestData<"sync_file">): Promise<ResponseData<"sync_file">> {
     const session = this.getClientSession(ws)
     if (!session) throw new Error("Not authenticated")
 
-    const filePath = path.join(session.projectPath, data.path)
+    const filePath = resolveProjectPath(session.projectPath, data.path)
     const fileDir = path.dirname(filePath)
 
     // Create directory if it doesn't exist
@@ -154,20 +775,35 @@ export class iOSServer {
     }
 
     // Write file content
-    fs.writeFileSync(filePath, data.content, "utf8")
+    const content = decodeContent(data)
+    fs.writeFileSync(filePath, content)
+    this.recordClientFile(session, filePath, content)
 
-    console.log(`File synced: ${data.path}`)
+    logger.debug("File synced", { path: data.path })
     return { success: true }
   }
 
-  private async handleSyncProject(ws: WebSocket, data: any): Promise<any> {
+  private async handleSyncProject(
+    ws: WebSocket,
+    data: RequestData<"sync_project">,
+  ): Promise<ResponseData<"sync_project">> {
     const session = this.getClientSession(ws)
     if (!session) throw new Error("Not authenticated")
 
     let syncedCount = 0
+    const failed: FileError[] = []
 
     for (const file of data.files) {
-      const filePath = path.join(session.projectPath, file.path)
+      let filePath: string
+      try {
+        filePath = resolveProjectPath(session.projectPath, file.path)
+      } catch (error) {
+        // Reject only the offending file so the rest of the project still syncs
+        if (!(error instanceof PathResolutionError)) throw error
+        logger.warn("Rejected file sync", { path: file.path, error: error.message })
+        failed.push({ path: error.path, code: error.code, message: error.message })
+        continue
+      }
       const fileDir = path.dirname(filePath)
 
       // Create directory if it doesn't exist
@@ -176,216 +812,1040 @@ export class iOSServer {
       }
 
       // Write file content
-      fs.writeFileSync(filePath, file.content, "utf8")
+      const content = decodeContent(file)
+      fs.writeFileSync(filePath, content)
+      this.recordClientFile(session, filePath, content)
       syncedCount++
     }
 
-    console.log(`Project synced: ${syncedCount} files`)
-    return { syncedCount }
+    logger.info("Project synced", { files: syncedCount, rejected: failed.length })
+    return { syncedCount, failed }
   }
 
-  private async handleDeleteFile(ws: WebSocket, data: any): Promise<any> {
+  private async handleDeleteFile(
+    ws: WebSocket,
+    data: RequestData<"delete_file">,
+  ): Promise<ResponseData<"delete_file">> {
     const session = this.getClientSession(ws)
     if (!session) throw new Error("Not authenticated")
 
-    const filePath = path.join(session.projectPath, data.path)
+    const filePath = resolveProjectPath(session.projectPath, data.path)
 
+    // Deleting a folder locally only reports the folder, not each file in it
     if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath)
-      console.log(`File deleted: ${data.path}`)
+      fs.rmSync(filePath, { recursive: true, force: true })
+      this.recordClientFile(session, filePath, null)
+      logger.debug("File deleted", { path: data.path })
     }
 
     return { success: true }
   }
 
-  private async handleGetDevices(): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const process = spawn("xcrun", ["simctl", "list", "devices", "available"])
-      let output = ""
-
-      process.stdout.on("data", (data) => {
-        output += data.toString()
-      })
+  private async handleGetManifest(ws: WebSocket): Promise<ResponseData<"get_manifest">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
 
-      process.on("close", (code) => {
-        if (code === 0) {
-          const devices = this.parseDeviceList(output)
-          resolve({ devices })
-        } else {
-          reject(new Error("Failed to get device list"))
-        }
-      })
-    })
+    return { files: await this.manifests.build(session.projectPath) }
   }
 
-  private parseDeviceList(output: string): string[] {
-    const devices: string[] = []
-    const lines = output.split("\n")
+  private async handleDeleteFiles(
+    ws: WebSocket,
+    data: RequestData<"delete_files">,
+  ): Promise<ResponseData<"delete_files">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
 
-    for (const line of lines) {
-      if (line.includes("iPhone") || line.includes("iPad")) {
-        const match = line.match(/^\s*(.+?)\s*\(/)
-        if (match) {
-          devices.push(match[1].trim())
-        }
+    let deletedCount = 0
+    const failed: FileError[] = []
+
+    for (const relativePath of data.paths) {
+      let filePath: string
+      try {
+        filePath = resolveProjectPath(session.projectPath, String(relativePath))
+      } catch (error) {
+        if (!(error instanceof PathResolutionError)) throw error
+        failed.push({ path: error.path, code: error.code, message: error.message })
+        continue
+      }
+
+      if (fs.existsSync(filePath) && fs.lstatSync(filePath).isFile()) {
+        fs.unlinkSync(filePath)
+        this.recordClientFile(session, filePath, null)
+        deletedCount++
       }
     }
 
-    return devices
+    logger.info("Project files deleted", { files: deletedCount, rejected: failed.length })
+    return { deletedCount, failed }
   }
 
-  private async handleSelectDevice(ws: WebSocket, data: any): Promise<any> {
-    // Implementation for selecting target device
-    console.log(`Selected device: ${data.device}`)
-    return { success: true, device: data.device }
+  // Chunks are appended to a partial file under the server directory and moved into place
+  // with the final chunk, so an interrupted upload never leaves a truncated project file
+  private async handleSyncFileChunk(
+    ws: WebSocket,
+    data: RequestData<"sync_file_chunk">,
+    payload?: Buffer,
+  ): Promise<ResponseData<"sync_file_chunk">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const filePath = resolveProjectPath(session.projectPath, data.path)
+    const uploadDir = path.join(session.projectPath, SERVER_DIRECTORY, "uploads")
+    const partPath = path.join(uploadDir, createHash("sha256").update(data.path).digest("hex"))
+
+    if (data.offset === 0) {
+      fs.mkdirSync(uploadDir, { recursive: true })
+      fs.writeFileSync(partPath, "")
+    }
+
+    const size = fs.existsSync(partPath) ? fs.statSync(partPath).size : -1
+    if (size !== data.offset) {
+      throw new Error(`Unexpected chunk offset ${data.offset} for ${data.path}, expected ${Math.max(size, 0)}`)
+    }
+
+    fs.appendFileSync(partPath, payload || Buffer.from(data.content || "", "base64"))
+    const received = fs.statSync(partPath).size
+
+    if (data.final) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.renameSync(partPath, filePath)
+      this.recordClientFile(session, filePath, fs.readFileSync(filePath))
+      logger.debug("File synced", { path: data.path, bytes: received })
+    }
+
+    return { success: true, received }
   }
 
-  private async handleBuildProject(ws: WebSocket): Promise<any> {
+  private async handleWatchFiles(
+    ws: WebSocket,
+    data: RequestData<"watch_files">,
+  ): Promise<ResponseData<"watch_files">> {
     const session = this.getClientSession(ws)
     if (!session) throw new Error("Not authenticated")
 
-    return new Promise((resolve, reject) => {
-      // Kill existing build process
-      if (this.buildProcess) {
-        this.buildProcess.kill()
+    const patterns = data.patterns.filter((pattern): pattern is string => typeof pattern === "string")
+    const exclude = (data.exclude || []).filter((pattern): pattern is string => typeof pattern === "string")
+    // Invalid patterns reject the request before the current watcher is replaced
+    for (const pattern of [...patterns, ...exclude]) {
+      globToRegExp(pattern)
+    }
+
+    session.outputWatcher?.close()
+    session.outputWatcher = undefined
+    for (const [filePath, hash] of Object.entries(data.known || {})) {
+      if (typeof hash === "string") session.fileHashes.set(filePath, hash)
+    }
+
+    if (patterns.length > 0) {
+      const watcher = new OutputWatcher(
+        session.projectPath,
+        patterns,
+        (relativePath, content) => this.pushFileChange(session, relativePath, content),
+        exclude,
+      )
+      try {
+        // Catch the client up on outputs that changed while it was away
+        watcher.scan()
+      } catch (error) {
+        watcher.close()
+        throw error
       }
+      session.outputWatcher = watcher
+    }
 
-      this.buildProcess = spawn("xcodebuild", ["-project", session.projectPath], {
-        cwd: session.projectPath,
-      })
+    return { success: true }
+  }
 
-      this.buildProcess.stdout?.on("data", (data) => {
-        const output = data.toString()
-        this.sendMessage(ws, "build_output", { output, show: false })
-      })
+  private pushFileChange(session: ClientSession, relativePath: string, content: Buffer | null): void {
+    if (content === null) {
+      session.fileHashes.delete(relativePath)
+      this.sendMessage(session.websocket, "file_changed", { path: relativePath, deleted: true })
+      return
+    }
 
-      this.buildProcess.stderr?.on("data", (data) => {
-        const output = data.toString()
-        this.sendMessage(ws, "build_output", { output, show: true })
-      })
+    const hash = createHash("sha256").update(content).digest("hex")
+    if (session.fileHashes.get(relativePath) === hash) {
+      return
+    }
+    session.fileHashes.set(relativePath, hash)
 
-      this.buildProcess.on("close", (code) => {
-        if (code === 0) {
-          resolve({ success: true })
-        } else {
-          reject(new Error(`Build failed with code ${code}`))
-        }
-      })
-    })
+    this.sendBinary(session.websocket, "file_changed", { path: relativePath, hash }, content, true)
   }
 
-  private async handleRunProject(ws: WebSocket): Promise<any> {
+  // Remembers what the client sent so the output watcher does not push it straight back
+  private recordClientFile(session: ClientSession, filePath: string, content: Buffer | null): void {
+    const relativePath = path.relative(session.projectPath, filePath).split(path.sep).join("/")
+    if (content === null) {
+      session.fileHashes.delete(relativePath)
+    } else {
+      session.fileHashes.set(relativePath, createHash("sha256").update(content).digest("hex"))
+    }
+  }
+
+  private async handleSetBuildFolder(
+    ws: WebSocket,
+    data: RequestData<"set_build_folder">,
+  ): Promise<ResponseData<"set_build_folder">> {
     const session = this.getClientSession(ws)
     if (!session) throw new Error("Not authenticated")
 
-    // Implementation for running project in simulator
-    console.log("Running project in simulator")
+    session.scheme = data.scheme || undefined
+    if (data.path === "") {
+      session.buildPath = undefined
+      return { success: true }
+    }
+
+    const buildPath = resolveProjectPath(session.projectPath, data.path)
+    if (!fs.existsSync(buildPath) || !fs.statSync(buildPath).isDirectory()) {
+      throw new Error(`Build folder does not exist: ${data.path}`)
+    }
+
+    session.buildPath = buildPath
+    logger.info("Build folder selected", { path: data.path, scheme: session.scheme })
     return { success: true }
   }
 
-  private async handleSimulatorInput(data: any): Promise<any> {
+  private async handleGetDevices(): Promise<ResponseData<"get_devices">> {
+    const simulators = await this.backend.listDevices()
+    const devices = simulators
+      .filter((simulator) => simulator.name.includes("iPhone") || simulator.name.includes("iPad"))
+      .map((simulator) => simulator.name)
+
+    return { devices }
+  }
+
+  private async handleSelectDevice(
+    ws: WebSocket,
+    data: RequestData<"select_device">,
+  ): Promise<ResponseData<"select_device">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    session.selectedDevice = data.device
+    logger.info("Device selected", { device: data.device })
+    return { success: true, device: data.device }
+  }
+
+  private async handleBuildProject(ws: WebSocket, context: RequestContext): Promise<ResponseData<"build_project">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const product = await this.buildForSimulator(ws, session, "Debug", { context })
+    return { success: true, appPath: product.appPath, bundleId: product.bundleId }
+  }
+
+  private async handleRunProject(ws: WebSocket, context: RequestContext): Promise<ResponseData<"run_project">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    // Reuse the last simulator build if there is one, otherwise build first
+    let product = session.lastBuild
+    if (!product || product.destination !== "simulator") {
+      product = await this.buildForSimulator(ws, session, "Debug", { context })
+    }
+
+    context.report({ phase: "Launching" })
+    const udid = await this.installAndLaunchOnSimulator(session, product)
+    session.frameStream?.refresh()
+    logger.info("Running app on simulator", { bundleId: product.bundleId, udid })
+    return { success: true, bundleId: product.bundleId, udid }
+  }
+
+  private async handleSimulatorInput(
+    ws: WebSocket,
+    data: RequestData<"simulator_input">,
+  ): Promise<ResponseData<"simulator_input">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
     try {
+      const udid = await this.resolveSimulator(session)
+
       switch (data.type) {
         case "touch":
-          await this.executeCommand(`xcrun simctl io booted tap ${data.x} ${data.y}`)
+          await this.backend.tap(udid, data.x || 0, data.y || 0)
           break
 
         case "control":
           switch (data.action) {
             case "home":
-              await this.executeCommand("xcrun simctl io booted pressButton home")
-              break
             case "lock":
-              await this.executeCommand("xcrun simctl io booted pressButton lock")
+            case "shake":
+              await this.backend.control(udid, data.action)
               break
             case "screenshot":
               const screenshotPath = path.join(
-                process.env.HOME || "/tmp",
-                "Desktop",
+                this.config.screenshotDirectory,
                 `simulator_screenshot_${Date.now()}.png`,
               )
-              await this.executeCommand(`xcrun simctl io booted screenshot "${screenshotPath}"`)
-              break
-            case "shake":
-              await this.executeCommand("xcrun simctl io booted shake")
+              fs.writeFileSync(screenshotPath, await this.backend.screenshot(udid))
               break
           }
           break
 
         case "rotate":
           // Rotate simulator
-          await this.executeCommand("xcrun simctl io booted rotate left")
+          await this.backend.control(udid, "rotate")
           break
       }
 
+      // The screen is about to change, so a stream that backed off on an idle screen catches it right away
+      session.frameStream?.refresh()
       return { success: true }
     } catch (error) {
-      console.error("Simulator input failed:", error)
+      logger.error("Simulator input failed", error)
       throw error
     }
   }
 
-  private async handleRequestFrame(ws: WebSocket, data: any): Promise<any> {
+  private async handleRequestFrame(
+    ws: WebSocket,
+    data: RequestData<"request_frame">,
+  ): Promise<ResponseData<"request_frame">> {
     const session = this.getClientSession(ws)
     if (!session) throw new Error("Not authenticated")
 
     try {
-      // Capture simulator screenshot
-      const screenshotPath = path.join(session.projectPath, "simulator_frame.png")
+      const udid = await this.resolveSimulator(session)
+      this.sendFrame(ws, await this.captureFrame(udid), data.orientation || "portrait")
+      return { success: true }
+    } catch (error) {
+      logger.error("Failed to capture simulator frame", error)
+      throw error
+    }
+  }
 
-      await this.executeCommand(`xcrun simctl io booted screenshot "${screenshotPath}"`)
+  private async handleStartFrameStream(
+    ws: WebSocket,
+    data: RequestData<"start_frame_stream">,
+  ): Promise<ResponseData<"start_frame_stream">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
 
-      // Read and encode image
-      const imageBuffer = fs.readFileSync(screenshotPath)
-      const imageData = imageBuffer.toString("base64")
+    session.frameStream?.stop()
+    const udid = await this.resolveSimulator(session)
+    const orientation = data.orientation || "portrait"
+    let lastError: string | null = null
+    const stream = new FrameStream({
+      capture: () => this.captureFrame(udid),
+      // Follow the session so frames reach a client that resumed
+      send: (image, sequence) => this.sendFrame(session.websocket, image, orientation, sequence),
+      onError: (error) => {
+        // The same failure repeats every second while it lasts
+        if (error.message !== lastError) {
+          logger.warn("Frame stream capture failed", { sessionId: session.id, udid, error: error.message })
+        }
+        lastError = error.message
+      },
+      maxFps: Math.min(MAX_STREAM_FPS, Math.max(1, Math.round(data.maxFps || MAX_STREAM_FPS))),
+    })
+    session.frameStream = stream
+    stream.start()
 
-      // Clean up temporary file
-      fs.unlinkSync(screenshotPath)
+    logger.info("Frame stream started", { udid, maxFps: stream.currentFps })
+    return { fps: stream.currentFps }
+  }
 
-      // Send frame update to client
-      this.sendMessage(ws, "simulator_frame", {
-        imageData,
-        width: 375, // Will be adjusted based on device
-        height: 812,
-        orientation: data.orientation || "portrait",
-        timestamp: Date.now(),
-      })
+  private async handleStopFrameStream(ws: WebSocket): Promise<ResponseData<"stop_frame_stream">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
 
-      return { success: true }
-    } catch (error) {
-      console.error("Failed to capture simulator frame:", error)
-      throw error
-    }
+    const stream = session.frameStream
+    stream?.stop()
+    session.frameStream = undefined
+    return { stopped: !!stream }
+  }
+
+  private async captureFrame(udid: string): Promise<Buffer> {
+    const startedAt = Date.now()
+    const image = await this.backend.screenshot(udid)
+    this.frameCaptureDuration.observeSince({}, startedAt)
+    return image
   }
 
-  private async handleDeployDevice(ws: WebSocket): Promise<any> {
+  private sendFrame(ws: WebSocket, image: Buffer, orientation: "portrait" | "landscape", sequence?: number): void {
+    const { width, height } = readPngSize(image)
+    const frame = { width, height, orientation, timestamp: Date.now(), sequence }
+    this.sendBinary(ws, "simulator_frame", frame, image)
+    this.framesSent.inc()
+  }
+
+  private async handleDeployDevice(ws: WebSocket): Promise<ResponseData<"deploy_device">> {
     // Implementation for deploying to physical device
-    console.log("Deploying to device")
+    logger.info("Deploying to device")
     return { success: true }
   }
 
-  private async handleExecuteCommand(data: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const process = spawn("bash", ["-c", data.command])
-      let output = ""
-      let error = ""
+  private async handleGetSimulators(): Promise<ResponseData<"get_simulators">> {
+    return { simulators: await this.backend.listDevices() }
+  }
+
+  private async handleGetPhysicalDevices(): Promise<ResponseData<"get_physical_devices">> {
+    // devicectl only writes JSON to a file
+    const jsonPath = path.join(os.tmpdir(), `ios-vscode-devices-${Date.now()}.json`)
+
+    try {
+      await runProcess("xcrun", ["devicectl", "list", "devices", "--quiet", "--json-output", jsonPath])
+      const parsed = JSON.parse(fs.readFileSync(jsonPath, "utf8"))
+
+      const devices: PhysicalDeviceInfo[] = (parsed.result?.devices || [])
+        .filter((device: any) => device.hardwareProperties?.platform === "iOS")
+        .map((device: any) => ({
+          id: device.hardwareProperties?.udid || device.identifier,
+          name: device.deviceProperties?.name || device.identifier,
+          model: device.hardwareProperties?.marketingName,
+          osVersion: device.deviceProperties?.osVersionNumber,
+          connected: device.connectionProperties?.tunnelState === "connected",
+        }))
+
+      return { devices }
+    } finally {
+      if (fs.existsSync(jsonPath)) {
+        fs.unlinkSync(jsonPath)
+      }
+    }
+  }
+
+  private async handleGetCertificates(): Promise<ResponseData<"get_certificates">> {
+    const output = await runProcess("security", ["find-identity", "-v", "-p", "codesigning"])
+    const certificates: CertificateInfo[] = []
+
+    // Lines look like: 1) 0123ABCD... "Apple Development: Jane Doe (TEAMID)"
+    for (const line of output.split("\n")) {
+      const match = line.match(/^\s*\d+\)\s+([0-9A-F]{40})\s+"(.+)"/)
+      if (!match) continue
 
-      process.stdout.on("data", (data) => {
-        output += data.toString()
+      const [, hash, name] = match
+      const pem = await runProcess("security", ["find-certificate", "-a", "-c", name, "-p"])
+      const expirationDate = this.findCertificateExpiration(pem, hash)
+
+      certificates.push({
+        id: hash,
+        name,
+        type: /Distribution/.test(name) ? ("distribution" as const) : ("development" as const),
+        expirationDate: expirationDate ? expirationDate.toISOString() : null,
       })
+    }
+
+    return { certificates }
+  }
+
+  private findCertificateExpiration(pem: string, sha1: string): Date | null {
+    const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || []
+
+    for (const block of blocks) {
+      const certificate = new X509Certificate(block)
+      if (certificate.fingerprint.replace(/:/g, "") === sha1) {
+        return new Date(certificate.validTo)
+      }
+    }
 
-      process.stderr.on("data", (data) => {
-        error += data.toString()
+    return null
+  }
+
+  private async handleGetProvisioningProfiles(): Promise<ResponseData<"get_provisioning_profiles">> {
+    const profiles: ProvisioningProfileInfo[] = []
+
+    for (const xml of await this.backend.readProvisioningProfiles()) {
+      const profile = parsePlist(xml) as Record<string, any>
+      const entitlements = profile.Entitlements || {}
+      const applicationId: string = entitlements["application-identifier"] || ""
+
+      let type: ProvisioningProfileInfo["type"] = "appstore"
+      if (entitlements["get-task-allow"]) {
+        type = "development"
+      } else if (profile.ProvisionedDevices) {
+        type = "adhoc"
+      }
+
+      profiles.push({
+        id: profile.UUID,
+        name: profile.Name,
+        appId: applicationId.substring(applicationId.indexOf(".") + 1),
+        teamId: (profile.TeamIdentifier || [])[0],
+        type,
+        expirationDate: (profile.ExpirationDate as Date).toISOString(),
+        devices: profile.ProvisionedDevices || [],
       })
+    }
 
-      process.on("close", (code) => {
-        if (code === 0) {
-          resolve(output)
-        } else {
-          reject(new Error(error || `Command failed with code ${code}`))
-        }
+    return { profiles }
+  }
+
+  private async handleBuildForDeployment(
+    ws: WebSocket,
+    data: RequestData<"build_for_deployment">,
+    context: RequestContext,
+  ): Promise<ResponseData<"build_for_deployment">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const configuration = data.configuration || "Debug"
+    const product =
+      data.target === "device"
+        ? await this.buildForDevice(ws, session, configuration, data.targetId, context)
+        : await this.buildForSimulator(ws, session, configuration, { udid: data.targetId, context })
+
+    return { success: true, appPath: product.appPath, bundleId: product.bundleId }
+  }
+
+  private async handleDeployToTarget(
+    ws: WebSocket,
+    data: RequestData<"deploy_to_target">,
+    context: RequestContext,
+  ): Promise<ResponseData<"deploy_to_target">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const product = session.lastBuild
+    if (!product || product.targetId !== data.targetId) {
+      throw new Error("No build available for this target. Run build_for_deployment first.")
+    }
+
+    context.report({ phase: "Installing", percent: 0 })
+    if (product.destination === "simulator") {
+      await this.installAndLaunchOnSimulator(session, product)
+    } else {
+      await runProcess("xcrun", ["devicectl", "device", "install", "app", "--device", data.targetId, product.appPath], {
+        signal: context.signal,
       })
+      context.report({ phase: "Launching", percent: 70 })
+      await runProcess(
+        "xcrun",
+        [
+          "devicectl",
+          "device",
+          "process",
+          "launch",
+          "--device",
+          data.targetId,
+          "--terminate-existing",
+          product.bundleId,
+        ],
+        { signal: context.signal },
+      )
+    }
+
+    logger.info("Deployed app", { bundleId: product.bundleId, targetId: data.targetId })
+    return { success: true }
+  }
+
+  private async handleBuildForAppStore(
+    ws: WebSocket,
+    data: RequestData<"build_for_appstore">,
+    context: RequestContext,
+  ): Promise<ResponseData<"build_for_appstore">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const archivePath = this.getArchivePath(session)
+
+    if (fs.existsSync(archivePath)) {
+      fs.rmSync(archivePath, { recursive: true, force: true })
+    }
+
+    const product = await this.runBuild(
+      ws,
+      session,
+      {
+        projectPath: this.getBuildPath(session),
+        configuration: data.configuration || "Release",
+        destination: { platform: "device" },
+        derivedDataPath: this.getDerivedDataPath(session),
+        action: "archive",
+        archivePath,
+      },
+      { context },
+    )
+    logger.info("Archived app", { bundleId: product.bundleId, archivePath })
+
+    return { success: true, archivePath }
+  }
+
+  private async handleUploadToAppStore(
+    ws: WebSocket,
+    data: RequestData<"upload_to_appstore">,
+    context: RequestContext,
+  ): Promise<ResponseData<"upload_to_appstore">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const archivePath = this.getArchivePath(session)
+    if (!fs.existsSync(archivePath)) {
+      throw new Error("No archive found. Run build_for_appstore first.")
+    }
+
+    // Uploading is done by exporting with destination "upload", using the accounts configured in Xcode
+    const exportDir = path.join(session.projectPath, ".ios-vscode", "Export")
+    const exportOptionsPath = path.join(session.projectPath, ".ios-vscode", "ExportOptions.plist")
+    fs.mkdirSync(exportDir, { recursive: true })
+    fs.writeFileSync(
+      exportOptionsPath,
+      `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>method</key>
+  <string>app-store-connect</string>
+  <key>destination</key>
+  <string>upload</string>
+</dict>
+</plist>
+`,
+      "utf8",
+    )
+
+    // xcodebuild reports no upload progress beyond its output
+    context.report({ phase: "Uploading" })
+    await runProcess(
+      "xcodebuild",
+      [
+        "-exportArchive",
+        "-archivePath",
+        archivePath,
+        "-exportPath",
+        exportDir,
+        "-exportOptionsPlist",
+        exportOptionsPath,
+        "-allowProvisioningUpdates",
+      ],
+      {
+        cwd: session.projectPath,
+        signal: context.signal,
+        onStdout: (output) => this.sendMessage(session.websocket, "build_output", { output, show: false }),
+        onStderr: (output) => this.sendMessage(session.websocket, "build_output", { output, show: true }),
+      },
+    )
+
+    logger.info("Uploaded archive to App Store Connect", { configuration: data.configuration || "Release" })
+    return { success: true }
+  }
+
+  private async handleIncrementalBuild(
+    ws: WebSocket,
+    data: RequestData<"incremental_build">,
+    context: RequestContext,
+  ): Promise<ResponseData<"incremental_build">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const warnings: string[] = []
+    const product = await this.buildForSimulator(ws, session, "Debug", {
+      context,
+      onLine: (line) => {
+        if (line.includes(": warning: ")) {
+          warnings.push(line.trim())
+        }
+      },
     })
+
+    logger.info("Incremental build finished", { changedFiles: (data.changedFiles || []).length })
+    return {
+      success: true,
+      appPath: product.appPath,
+      bundleId: product.bundleId,
+      changedFiles: data.changedFiles || [],
+      warnings,
+    }
+  }
+
+  private async handleApplyIncrementalUpdate(
+    ws: WebSocket,
+    data: RequestData<"apply_incremental_update">,
+  ): Promise<ResponseData<"apply_incremental_update">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const product = session.lastBuild
+    if (!product || product.appPath !== data.appPath) {
+      throw new Error("Incremental build result is no longer current")
+    }
+
+    const udid = await this.installAndLaunchOnSimulator(session, product)
+    return { success: true, udid }
+  }
+
+  private async handleSwiftUIPreviewUpdate(
+    ws: WebSocket,
+    data: RequestData<"swiftui_preview_update">,
+    context: RequestContext,
+  ): Promise<ResponseData<"swiftui_preview_update">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const filePath = resolveProjectPath(session.projectPath, data.path)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    const content = Buffer.from(data.content, "utf8")
+    fs.writeFileSync(filePath, content)
+    this.recordClientFile(session, filePath, content)
+
+    const product = await this.buildForSimulator(ws, session, "Debug", { context })
+    const udid = await this.installAndLaunchOnSimulator(session, product)
+
+    logger.info("SwiftUI preview updated", { path: data.path })
+    return { success: true, udid, components: data.components || [] }
+  }
+
+  private async handleAssetUpdate(
+    ws: WebSocket,
+    data: RequestData<"asset_update">,
+    context: RequestContext,
+  ): Promise<ResponseData<"asset_update">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    if (data.content !== undefined) {
+      const filePath = resolveProjectPath(session.projectPath, data.path)
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      const content = Buffer.from(data.content, "base64")
+      fs.writeFileSync(filePath, content)
+      this.recordClientFile(session, filePath, content)
+    }
+
+    // Asset catalogs are compiled by actool as part of the build
+    const product = await this.buildForSimulator(ws, session, "Debug", { context })
+    const udid = await this.installAndLaunchOnSimulator(session, product)
+
+    logger.info("Asset updated", { path: data.path })
+    return { success: true, udid }
+  }
+
+  private async handleStartDebugSession(
+    ws: WebSocket,
+    data: RequestData<"start_debug_session">,
+    context: RequestContext,
+  ): Promise<ResponseData<"start_debug_session">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const configuration = data.configuration || {}
+    if (configuration.target === "device") {
+      throw new Error("Debugging on physical devices is not supported yet")
+    }
+
+    if (configuration.device) {
+      session.selectedDevice = configuration.device
+    }
+
+    const product = await this.buildForSimulator(ws, session, "Debug", { context })
+    const udid = await this.resolveSimulator(session)
+    await this.backend.install(udid, product.appPath)
+
+    // Launch suspended so breakpoints are in place before any user code runs
+    const processId = await this.backend.launch(udid, product.bundleId, { waitForDebugger: true })
+
+    const lldb = this.backend.attachDebugger(udid, processId, {
+      onOutput: (output, isError) => {
+        this.sendMessage(session.websocket, "debug_output", {
+          sessionId: data.sessionId,
+          output,
+          ...(isError ? { error: true } : {}),
+        })
+      },
+      onExit: () => {
+        session.debugSessions.delete(data.sessionId)
+      },
+    })
+
+    session.debugSessions.set(data.sessionId, lldb)
+
+    for (const breakpoint of session.breakpoints.values()) {
+      lldb.send(this.getBreakpointCommand(breakpoint))
+    }
+    for (const expression of session.watchExpressions) {
+      lldb.send(`display ${expression}`)
+    }
+    if (!configuration.stopOnEntry) {
+      lldb.send("process continue")
+    }
+
+    return { success: true, processId }
+  }
+
+  private async handleStopDebugSession(
+    ws: WebSocket,
+    data: RequestData<"stop_debug_session">,
+  ): Promise<ResponseData<"stop_debug_session">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const lldb = session.debugSessions.get(data.sessionId)
+    if (lldb) {
+      lldb.send("process kill")
+      lldb.send("quit")
+      session.debugSessions.delete(data.sessionId)
+    }
+
+    return { success: true }
+  }
+
+  private async handleAddBreakpoint(
+    ws: WebSocket,
+    data: RequestData<"add_breakpoint">,
+  ): Promise<ResponseData<"add_breakpoint">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    const breakpoint: BreakpointSpec = {
+      id: data.id,
+      file: data.file,
+      line: data.line,
+      condition: data.condition,
+      enabled: data.enabled !== false,
+    }
+    // Fails for files and conditions that cannot be passed to lldb before the breakpoint is kept
+    const command = this.getBreakpointCommand(breakpoint)
+    session.breakpoints.set(breakpoint.id, breakpoint)
+
+    for (const lldb of session.debugSessions.values()) {
+      lldb.send(command)
+    }
+
+    return { success: true, id: breakpoint.id, verified: session.debugSessions.size > 0 }
+  }
+
+  private async handleRemoveBreakpoint(
+    ws: WebSocket,
+    data: RequestData<"remove_breakpoint">,
+  ): Promise<ResponseData<"remove_breakpoint">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    session.breakpoints.delete(data.id)
+
+    for (const lldb of session.debugSessions.values()) {
+      lldb.send(`breakpoint delete ${this.getBreakpointName(data.id)}`)
+    }
+
+    return { success: true }
+  }
+
+  private async handleAddWatchExpression(
+    ws: WebSocket,
+    data: RequestData<"add_watch_expression">,
+  ): Promise<ResponseData<"add_watch_expression">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    // display takes the rest of the line as the expression, so it cannot be quoted, only checked
+    const command = checkLldbCommand(`display ${data.expression}`)
+    session.watchExpressions.push(data.expression)
+
+    for (const lldb of session.debugSessions.values()) {
+      lldb.send(command)
+    }
+
+    return { success: true }
+  }
+
+  private async handleRemoveWatchExpression(
+    ws: WebSocket,
+    data: RequestData<"remove_watch_expression">,
+  ): Promise<ResponseData<"remove_watch_expression">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    session.watchExpressions = session.watchExpressions.filter((expression) => expression !== data.expression)
+
+    // lldb has no way to remove a single display by expression, so rebuild the stop hooks
+    for (const lldb of session.debugSessions.values()) {
+      lldb.send("target stop-hook delete")
+      for (const expression of session.watchExpressions) {
+        lldb.send(`display ${expression}`)
+      }
+    }
+
+    return { success: true }
+  }
+
+  private getBreakpointName(id: string): string {
+    return `ios-vscode-${id.replace(/[^A-Za-z0-9_]/g, "_")}`
+  }
+
+  private getBreakpointCommand(breakpoint: BreakpointSpec): string {
+    const file = quoteLldbArgument(path.basename(breakpoint.file))
+    let command = `breakpoint set --file ${file} --line ${Math.trunc(breakpoint.line)} -N ${this.getBreakpointName(breakpoint.id)}`
+    if (breakpoint.condition) {
+      command += ` --condition ${quoteLldbArgument(breakpoint.condition)}`
+    }
+    if (!breakpoint.enabled) {
+      command += " --disable"
+    }
+    return command
+  }
+
+  private getArchivePath(session: ClientSession): string {
+    return path.join(session.projectPath, ".ios-vscode", "App.xcarchive")
+  }
+
+  private getBuildPath(session: ClientSession): string {
+    return session.buildPath || session.projectPath
+  }
+
+  private getDerivedDataPath(session: ClientSession): string {
+    return path.join(session.projectPath, ".ios-vscode", "DerivedData")
+  }
+
+  private async buildForSimulator(
+    ws: WebSocket,
+    session: ClientSession,
+    configuration: string,
+    options: { udid?: string; onLine?: (line: string) => void; context?: RequestContext } = {},
+  ): Promise<BuildProduct> {
+    const simulatorId = options.udid || (await this.resolveSimulator(session))
+    const result = await this.runBuild(
+      ws,
+      session,
+      {
+        projectPath: this.getBuildPath(session),
+        configuration,
+        destination: { platform: "simulator", id: simulatorId },
+        derivedDataPath: this.getDerivedDataPath(session),
+      },
+      { context: options.context, onLine: options.onLine },
+    )
+
+    session.lastBuild = { ...result, destination: "simulator", targetId: simulatorId, configuration }
+    return session.lastBuild
+  }
+
+  private async buildForDevice(
+    ws: WebSocket,
+    session: ClientSession,
+    configuration: string,
+    targetId: string,
+    context?: RequestContext,
+  ): Promise<BuildProduct> {
+    const result = await this.runBuild(
+      ws,
+      session,
+      {
+        projectPath: this.getBuildPath(session),
+        configuration,
+        destination: { platform: "device", id: targetId },
+        derivedDataPath: this.getDerivedDataPath(session),
+      },
+      { context },
+    )
+
+    session.lastBuild = { ...result, destination: "device", targetId, configuration }
+    return session.lastBuild
+  }
+
+  private async resolveSimulator(session: ClientSession): Promise<string> {
+    const simulators = await this.backend.listDevices()
+    const simulator =
+      simulators.find((sim) => sim.name === session.selectedDevice || sim.id === session.selectedDevice) ||
+      simulators.find((sim) => sim.state === "Booted") ||
+      simulators.find((sim) => sim.name.startsWith("iPhone"))
+
+    if (!simulator) {
+      throw new Error("No available iOS simulator found")
+    }
+
+    if (simulator.state !== "Booted") {
+      await this.backend.boot(simulator.id)
+    }
+
+    return simulator.id
+  }
+
+  private async installAndLaunchOnSimulator(session: ClientSession, product: BuildProduct): Promise<string> {
+    const udid = product.targetId || (await this.resolveSimulator(session))
+    await this.backend.install(udid, product.appPath)
+    await this.backend.launch(udid, product.bundleId)
+    return udid
+  }
+
+  private async runBuild(
+    ws: WebSocket,
+    session: ClientSession,
+    request: Omit<BuildRequest, "signal">,
+    options: { context?: RequestContext; onLine?: (line: string) => void } = {},
+  ): Promise<BuildResult> {
+    const { context, onLine } = options
+
+    // The latest build's output is also kept on disk, where clients can watch it. It lives in the
+    // folder that was built so multi-root clients map it into that workspace folder.
+    const logPath = path.join(request.projectPath, SERVER_DIRECTORY, "logs", "build.log")
+    fs.mkdirSync(path.dirname(logPath), { recursive: true })
+    fs.writeFileSync(logPath, "")
+
+    const progress = new BuildProgress(request.projectPath)
+    let reported = progress.current()
+    context?.report(reported)
+
+    const onOutput: BuildOutputHandler = (output, isError) => {
+      // Follow the session so output reaches a client that resumed mid-build
+      this.sendMessage(session.websocket, "build_output", { output, show: isError })
+      // The output itself only goes out as build_output
+      const current = progress.update(output)
+      if (current.phase !== reported.phase || current.percent !== reported.percent) {
+        reported = current
+        context?.report(current)
+      }
+      fs.appendFileSync(logPath, output.endsWith("\n") ? output : `${output}\n`)
+      if (onLine && !isError) {
+        output.split("\n").forEach(onLine)
+      }
+    }
+
+    const startedAt = Date.now()
+    const labels = { platform: request.destination.platform, action: request.action || "build" }
+    try {
+      const result = await this.backend.build({ ...request, scheme: session.scheme, signal: context?.signal }, onOutput)
+      this.buildDuration.observeSince({ ...labels, outcome: "success" }, startedAt)
+      return result
+    } catch (error) {
+      this.buildDuration.observeSince(
+        { ...labels, outcome: context?.signal.aborted ? "cancelled" : "failure" },
+        startedAt,
+      )
+      throw error
+    }
+  }
+
+  private async handlePing(data: RequestData<"ping">): Promise<ResponseData<"ping">> {
+    return {
+      timestamp: data.timestamp,
+      serverTime: Date.now(),
+      xcodeVersion: await this.getXcodeVersion(),
+      backend: this.backend.name,
+    }
+  }
+
+  private async handleRunOperation(
+    ws: WebSocket,
+    data: RequestData<"run_operation">,
+    context: RequestContext,
+  ): Promise<ResponseData<"run_operation">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    logger.info("Running operation", { operation: data.operation, username: session.username })
+    const output = await this.operations.run(data.operation, data.args || {}, {
+      projectPath: this.getBuildPath(session),
+      derivedDataPath: this.getDerivedDataPath(session),
+      signal: context.signal,
+    })
+    return { output }
+  }
+
+  private async handleRunShell(
+    ws: WebSocket,
+    data: RequestData<"run_shell">,
+    context: RequestContext,
+  ): Promise<ResponseData<"run_shell">> {
+    const session = this.getClientSession(ws)
+    if (!session) throw new Error("Not authenticated")
+
+    if (!this.config.allowRawShell) {
+      throw new Error("Raw shell commands are disabled on this server. Use run_operation instead.")
+    }
+
+    logger.warn("Running raw shell command", { username: session.username, command: data.command })
+    const output = await runProcess("bash", ["-c", data.command], { cwd: session.projectPath, signal: context.signal })
+    return { output }
   }
 
   private getClientSession(ws: WebSocket): ClientSession | undefined {
@@ -399,51 +1859,72 @@ export class iOSServer {
 
   private removeClient(ws: WebSocket): void {
     const session = this.getClientSession(ws)
-    if (session) {
-      this.clients.delete(session.id)
+    // A resuming client starts a new stream once its panel is back
+    session?.frameStream?.stop()
+    if (session) session.frameStream = undefined
+    if (session && !session.expiryTimer) {
+      // Keep the session around for a while in case the client reconnects
+      session.expiryTimer = setTimeout(() => this.destroySession(session), SESSION_RESUME_WINDOW)
     }
+    this.negotiatedVersions.delete(ws)
+    this.authChallenges.delete(ws)
+    this.authFailures.delete(ws)
   }
 
-  private sendMessage(ws: WebSocket, type: string, data: any, id?: string): void {
+  private destroySession(session: ClientSession): void {
+    logger.info("Session expired", { sessionId: session.id, username: session.username })
+    session.debugSessions.forEach((lldb) => lldb.kill())
+    session.outputWatcher?.close()
+    this.jobs.cancelSession(session.id)
+    this.clients.delete(session.id)
+  }
+
+  private send(ws: WebSocket, type: string, data: any, id?: string): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify({ type, data, id }))
     }
   }
 
-  private sendResponse(ws: WebSocket, type: string, data: any, id?: string): void {
-    this.sendMessage(ws, `${type}_response`, data, id)
+  private sendMessage<T extends EventType>(ws: WebSocket, type: T, data: EventMap[T], id?: string): void {
+    this.send(ws, type, data, id)
   }
 
-  private sendError(ws: WebSocket, message: string, id?: string): void {
-    this.sendMessage(ws, "error", { message }, id)
+  // Payloads are usually already compressed formats such as PNG, where deflating again only costs CPU
+  private sendBinary<T extends EventType>(
+    ws: WebSocket,
+    type: T,
+    data: EventMap[T],
+    payload: Buffer,
+    compress = false,
+  ): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(encodeBinaryMessage({ type, data }, payload), { binary: true, compress })
+    }
   }
 
-  private async executeCommand(command: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const process = spawn("bash", ["-c", command])
-      let output = ""
-      let error = ""
-
-      process.stdout.on("data", (data) => {
-        output += data.toString()
-      })
-
-      process.stderr.on("data", (data) => {
-        error += data.toString()
-      })
+  private sendResponse(ws: WebSocket, type: RequestType, data: any, id?: string): void {
+    this.send(ws, responseType(type), data, id)
+  }
 
-      process.on("close", (code) => {
-        if (code === 0) {
-          resolve(output)
-        } else {
-          reject(new Error(error || `Command failed with code ${code}`))
-        }
-      })
-    })
+  private sendError(
+    ws: WebSocket,
+    message: string,
+    id?: string,
+    details: Partial<Omit<FileError, "message">> = {},
+  ): void {
+    this.sendMessage(ws, "error", { message, ...details }, id)
   }
 }
 
-// Start the server
+function decodeContent(file: SyncedFile): Buffer {
+  return Buffer.from(file.content, file.encoding === "base64" ? "base64" : "utf8")
+}
+
+// Deployments from before the ios-vscode-server command start the server with `node ios-server.js`
 if (require.main === module) {
-  new iOSServer(8080)
+  require("./cli")
+    .main(process.argv.slice(2))
+    .then((code: number | null) => {
+      if (code !== null) process.exit(code)
+    })
 }
@@ -0,0 +1,178 @@
+import type { JobInfo, JobPriority } from "../src/shared/protocol"
+
+const PRIORITY_ORDER: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 }
+
+export interface JobLimits {
+  maxConcurrentJobs: number
+  maxJobsPerSession: number
+}
+
+export interface JobRequest {
+  type: string
+  sessionId: string
+  username: string
+  priority: JobPriority
+  // Aborting it cancels the job, whether queued or running
+  signal: AbortSignal
+  // Called with the number of jobs ahead whenever it changes while the job waits
+  onQueued?: (queuePosition: number) => void
+}
+
+export interface RunningJob {
+  id: string
+  // Aborted when the job is cancelled; pass it to the processes the job starts
+  signal: AbortSignal
+  // Why the job was cancelled, null while it has not been
+  readonly cancelReason: string | null
+  // Frees the job's slot; call once the work is done, however it ended
+  finish(): void
+}
+
+interface JobEntry {
+  id: string
+  request: JobRequest
+  state: "queued" | "running"
+  queuedAt: number
+  startedAt?: number
+  abort: AbortController
+  cancelReason: string | null
+  queuePosition?: number
+  start: () => void
+  fail: (error: Error) => void
+}
+
+// Runs builds, deploys and uploads for all clients within a global and a per-session limit.
+// Waiting jobs start in priority order, oldest first within a priority, so hot reload builds
+// go ahead of archives. A job that cannot start because its session is at its limit does not
+// hold up other sessions' jobs.
+export class JobScheduler {
+  private jobs: JobEntry[] = []
+  private nextId = 1
+
+  constructor(
+    private limits: JobLimits,
+    private onChange: () => void,
+  ) {}
+
+  // Resolves once the job may run; rejects if it is cancelled while waiting
+  enqueue(request: JobRequest): Promise<RunningJob> {
+    return new Promise((resolve, reject) => {
+      if (request.signal.aborted) {
+        reject(new Error("Request was cancelled"))
+        return
+      }
+
+      const entry: JobEntry = {
+        id: String(this.nextId++),
+        request,
+        state: "queued",
+        queuedAt: Date.now(),
+        abort: new AbortController(),
+        cancelReason: null,
+        start: () =>
+          resolve({
+            id: entry.id,
+            signal: entry.abort.signal,
+            get cancelReason() {
+              return entry.cancelReason
+            },
+            finish: () => this.remove(entry),
+          }),
+        fail: reject,
+      }
+      request.signal.addEventListener("abort", () => this.cancelEntry(entry, "Request was cancelled"), { once: true })
+
+      this.jobs.push(entry)
+      this.schedule()
+    })
+  }
+
+  list(): JobInfo[] {
+    return this.jobs.map((entry) => ({
+      id: entry.id,
+      type: entry.request.type,
+      username: entry.request.username,
+      priority: entry.request.priority,
+      state: entry.state,
+      queuePosition: entry.queuePosition,
+      queuedAt: entry.queuedAt,
+      startedAt: entry.startedAt,
+    }))
+  }
+
+  // Users can only cancel their own jobs
+  cancel(jobId: string, username: string): boolean {
+    const entry = this.jobs.find((job) => job.id === jobId)
+    if (!entry || entry.request.username !== username) {
+      return false
+    }
+    this.cancelEntry(entry, `Job ${jobId} (${entry.request.type}) was cancelled`)
+    return true
+  }
+
+  // Cancels every job of a session that has gone away
+  cancelSession(sessionId: string): void {
+    for (const entry of this.jobs.filter((job) => job.request.sessionId === sessionId)) {
+      this.cancelEntry(entry, "Session expired")
+    }
+  }
+
+  private cancelEntry(entry: JobEntry, reason: string): void {
+    if (entry.cancelReason !== null || !this.jobs.includes(entry)) return
+
+    entry.cancelReason = reason
+    entry.abort.abort()
+    // Running jobs leave the list when their work notices the abort and calls finish
+    if (entry.state === "queued") {
+      entry.fail(new Error(reason))
+      this.remove(entry)
+    } else {
+      this.onChange()
+    }
+  }
+
+  private remove(entry: JobEntry): void {
+    const index = this.jobs.indexOf(entry)
+    if (index === -1) return
+    this.jobs.splice(index, 1)
+    this.schedule()
+  }
+
+  private schedule(): void {
+    const running = this.jobs.filter((job) => job.state === "running")
+    const perSession = new Map<string, number>()
+    for (const job of running) {
+      perSession.set(job.request.sessionId, (perSession.get(job.request.sessionId) || 0) + 1)
+    }
+
+    const queued = this.jobs
+      .filter((job) => job.state === "queued")
+      .sort(
+        (a, b) => PRIORITY_ORDER[a.request.priority] - PRIORITY_ORDER[b.request.priority] || a.queuedAt - b.queuedAt,
+      )
+
+    let runningCount = running.length
+    const waiting: JobEntry[] = []
+    for (const job of queued) {
+      const sessionCount = perSession.get(job.request.sessionId) || 0
+      if (runningCount < this.limits.maxConcurrentJobs && sessionCount < this.limits.maxJobsPerSession) {
+        job.state = "running"
+        job.startedAt = Date.now()
+        job.queuePosition = undefined
+        perSession.set(job.request.sessionId, sessionCount + 1)
+        runningCount++
+        job.start()
+      } else {
+        waiting.push(job)
+      }
+    }
+
+    waiting.forEach((job, index) => {
+      if (job.queuePosition !== index) {
+        job.queuePosition = index
+        job.request.onQueued?.(index)
+      }
+    })
+    this.onChange()
+  }
+}
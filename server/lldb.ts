@@ -0,0 +1,15 @@
+// lldb reads one command per line from stdin, so a line break in client input would let the client
+// run any command it likes, including `platform shell`
+const CONTROL_CHARACTERS = /[\x00-\x1f\x7f]/
+
+export function checkLldbCommand(command: string): string {
+  if (CONTROL_CHARACTERS.test(command)) {
+    throw new Error("Debugger commands must not contain line breaks or other control characters")
+  }
+  return command
+}
+
+// A double-quoted lldb argument; inside double quotes lldb treats \, " and ` specially
+export function quoteLldbArgument(value: string): string {
+  return `"${checkLldbCommand(value).replace(/[\\"`]/g, "\\$&")}"`
+}
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from "async_hooks"
+import type { LogLevel } from "./config"
+
+export type LogFields = Record<string, unknown>
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 }
+
+// Fields of the request being handled, e.g. sessionId and requestId, added to every line logged while it runs
+const requestFields = new AsyncLocalStorage<LogFields>()
+
+export function withLogFields<T>(fields: LogFields, fn: () => T): T {
+  return requestFields.run({ ...requestFields.getStore(), ...fields }, fn)
+}
+
+// Writes one JSON object per line to stdout, e.g.
+// {"time":"2024-05-01T12:00:00.000Z","level":"info","msg":"File synced","sessionId":"...","requestId":"7","path":"App.swift"}
+export class Logger {
+  constructor(
+    private level: LogLevel = "info",
+    private write: (line: string) => void = (line) => process.stdout.write(`${line}\n`),
+  ) {}
+
+  setLevel(level: LogLevel): void {
+    this.level = level
+  }
+
+  debug(message: string, details?: unknown): void {
+    this.log("debug", message, details)
+  }
+
+  info(message: string, details?: unknown): void {
+    this.log("info", message, details)
+  }
+
+  warn(message: string, details?: unknown): void {
+    this.log("warn", message, details)
+  }
+
+  error(message: string, details?: unknown): void {
+    this.log("error", message, details)
+  }
+
+  // details is either an error or extra fields
+  private log(level: LogLevel, message: string, details: unknown): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) return
+
+    const fields =
+      details instanceof Error
+        ? { error: details.message, stack: details.stack }
+        : details !== undefined && (typeof details !== "object" || details === null)
+          ? { detail: details }
+          : (details as LogFields | undefined)
+    this.write(
+      JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...requestFields.getStore(), ...fields }),
+    )
+  }
+}
+
+// Shared by all server modules; the CLI sets its level from the config
+export const logger = new Logger()
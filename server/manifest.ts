@@ -0,0 +1,70 @@
+import * as fs from "fs"
+import * as path from "path"
+import { createHash } from "crypto"
+import type { ManifestEntry } from "../src/shared/protocol"
+
+// Server-owned directory at the top of each project (derived data, partial uploads) and in each
+// folder that was built (build logs)
+export const SERVER_DIRECTORY = ".ios-vscode"
+
+interface CachedHash {
+  size: number
+  mtimeMs: number
+  hash: string
+}
+
+// Builds manifests of a project's files. Hashes are cached by path and only recomputed
+// when a file's size or modification time changes.
+export class ManifestCache {
+  private hashes: Map<string, CachedHash> = new Map()
+
+  async build(projectPath: string): Promise<ManifestEntry[]> {
+    const entries: ManifestEntry[] = []
+    const seen = new Set<string>()
+    await this.walk(projectPath, "", entries, seen)
+
+    // Forget files that no longer exist in this project
+    for (const filePath of this.hashes.keys()) {
+      if (filePath.startsWith(projectPath + path.sep) && !seen.has(filePath)) {
+        this.hashes.delete(filePath)
+      }
+    }
+
+    return entries
+  }
+
+  private async walk(root: string, relativeDir: string, entries: ManifestEntry[], seen: Set<string>): Promise<void> {
+    const dirents = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true })
+
+    for (const dirent of dirents) {
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name
+
+      // Symlinks are skipped, their targets may lie outside the project
+      if (dirent.isDirectory()) {
+        if (dirent.name === SERVER_DIRECTORY) continue
+        await this.walk(root, relativePath, entries, seen)
+      } else if (dirent.isFile()) {
+        const filePath = path.join(root, relativePath)
+        const stats = await fs.promises.stat(filePath)
+        seen.add(filePath)
+
+        let cached = this.hashes.get(filePath)
+        if (!cached || cached.size !== stats.size || cached.mtimeMs !== stats.mtimeMs) {
+          cached = { size: stats.size, mtimeMs: stats.mtimeMs, hash: await hashFile(filePath) }
+          this.hashes.set(filePath, cached)
+        }
+        entries.push({ path: relativePath, size: cached.size, hash: cached.hash })
+      }
+    }
+  }
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256")
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject)
+  })
+}
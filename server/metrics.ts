@@ -0,0 +1,117 @@
+// Counters, gauges and histograms rendered in the Prometheus text exposition format
+
+type Labels = Record<string, string>
+
+// Seconds; from quick requests up to archive builds
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 120, 300, 600, 1800]
+
+interface Metric {
+  render(): string[]
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",")
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>()
+
+  constructor(
+    private name: string,
+    private help: string,
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels)
+    this.values.set(key, (this.values.get(key) || 0) + amount)
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => sample(this.name, key, value)),
+    ]
+  }
+}
+
+// Read when scraped, so it never goes stale
+export class Gauge implements Metric {
+  constructor(
+    private name: string,
+    private help: string,
+    private collect: () => Array<{ labels?: Labels; value: number }>,
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...this.collect().map(({ labels, value }) => sample(this.name, labelKey(labels || {}), value)),
+    ]
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  constructor(
+    private name: string,
+    private help: string,
+    private buckets: number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.counts[index]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  // Records the seconds since start
+  observeSince(labels: Labels, start: number): void {
+    this.observe(labels, (Date.now() - start) / 1000)
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const [key, series] of this.series) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          sample(`${this.name}_bucket`, labelKey({ ...series.labels, le: String(bound) }), series.counts[index]),
+        )
+      })
+      lines.push(sample(`${this.name}_bucket`, labelKey({ ...series.labels, le: "+Inf" }), series.count))
+      lines.push(sample(`${this.name}_sum`, key, series.sum))
+      lines.push(sample(`${this.name}_count`, key, series.count))
+    }
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = []
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric)
+    return metric
+  }
+
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n"
+  }
+}
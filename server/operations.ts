@@ -0,0 +1,204 @@
+import { runProcess } from "./process"
+import type { OperationInfo, OperationParamType } from "../src/shared/protocol"
+
+export interface OperationParam {
+  type: OperationParamType
+  description: string
+  optional?: boolean
+  // String values must match this pattern, which also keeps them from being read as options
+  pattern?: RegExp
+  values?: string[]
+}
+
+export interface OperationContext {
+  projectPath: string
+  // Absolute, shared with the session's builds
+  derivedDataPath: string
+  signal?: AbortSignal
+}
+
+interface OperationCommand {
+  command: string
+  args: string[]
+}
+
+interface OperationDefinition {
+  description: string
+  params: Record<string, OperationParam>
+  command(args: Record<string, any>, context: OperationContext): OperationCommand
+}
+
+const UDID_PATTERN = /^(booted|[A-Fa-f0-9-]{8,})$/
+const BUNDLE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.-]*$/
+const CONFIGURATION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _-]*$/
+
+const deviceParam: OperationParam = {
+  type: "string",
+  description: "Simulator UDID, or 'booted' for the booted simulator",
+  optional: true,
+  pattern: UDID_PATTERN,
+}
+
+const bundleIdParam: OperationParam = {
+  type: "string",
+  description: "App bundle identifier",
+  pattern: BUNDLE_ID_PATTERN,
+}
+
+const configurationParam: OperationParam = {
+  type: "string",
+  description: "Build configuration",
+  optional: true,
+  pattern: CONFIGURATION_PATTERN,
+}
+
+// Named, parameterized commands clients may run. Each maps validated arguments to an argv
+// that is spawned without a shell, so arguments are never interpreted by one.
+export class OperationRegistry {
+  private operations: Map<string, OperationDefinition> = new Map()
+
+  register(name: string, definition: OperationDefinition): void {
+    if (this.operations.has(name)) {
+      throw new Error(`Operation already registered: ${name}`)
+    }
+    this.operations.set(name, definition)
+  }
+
+  list(): OperationInfo[] {
+    return Array.from(this.operations.entries()).map(([name, definition]) => ({
+      name,
+      description: definition.description,
+      params: Object.entries(definition.params).map(([paramName, param]) => ({
+        name: paramName,
+        type: param.type,
+        description: param.description,
+        optional: param.optional === true,
+        values: param.values,
+      })),
+    }))
+  }
+
+  async run(name: string, args: Record<string, unknown>, context: OperationContext): Promise<string> {
+    const definition = this.operations.get(name)
+    if (!definition) {
+      throw new Error(`Unknown operation: ${name}`)
+    }
+
+    const validated = this.validate(name, definition, args)
+    const { command, args: argv } = definition.command(validated, context)
+    return runProcess(command, argv, { cwd: context.projectPath, signal: context.signal })
+  }
+
+  private validate(name: string, definition: OperationDefinition, args: Record<string, unknown>): Record<string, any> {
+    for (const key of Object.keys(args)) {
+      if (!Object.prototype.hasOwnProperty.call(definition.params, key)) {
+        throw new Error(`Unknown argument for ${name}: ${key}`)
+      }
+    }
+
+    const validated: Record<string, any> = {}
+    for (const [key, param] of Object.entries(definition.params)) {
+      const value = args[key]
+      if (value === undefined || value === null) {
+        if (!param.optional) throw new Error(`Missing argument for ${name}: ${key}`)
+        continue
+      }
+
+      if (typeof value !== param.type) {
+        throw new Error(`Argument ${key} for ${name} must be of type ${param.type}`)
+      }
+      if (typeof value === "string") {
+        if (param.pattern && !param.pattern.test(value)) {
+          throw new Error(`Invalid value for ${name} argument ${key}: ${value}`)
+        }
+        if (param.values && !param.values.includes(value)) {
+          throw new Error(`Argument ${key} for ${name} must be one of: ${param.values.join(", ")}`)
+        }
+      }
+      validated[key] = value
+    }
+
+    return validated
+  }
+}
+
+export function createDefaultOperations(): OperationRegistry {
+  const registry = new OperationRegistry()
+
+  registry.register("simctl.openurl", {
+    description: "Open a URL in the simulator",
+    params: {
+      device: deviceParam,
+      url: { type: "string", description: "URL to open, e.g. myapp://path", pattern: /^[A-Za-z][A-Za-z0-9+.-]*:\S+$/ },
+    },
+    command: (args) => ({ command: "xcrun", args: ["simctl", "openurl", args.device || "booted", args.url] }),
+  })
+
+  registry.register("simctl.terminate", {
+    description: "Terminate a running app in the simulator",
+    params: { device: deviceParam, bundleId: bundleIdParam },
+    command: (args) => ({ command: "xcrun", args: ["simctl", "terminate", args.device || "booted", args.bundleId] }),
+  })
+
+  registry.register("simctl.uninstall", {
+    description: "Uninstall an app from the simulator",
+    params: { device: deviceParam, bundleId: bundleIdParam },
+    command: (args) => ({ command: "xcrun", args: ["simctl", "uninstall", args.device || "booted", args.bundleId] }),
+  })
+
+  registry.register("simctl.appearance", {
+    description: "Switch the simulator between light and dark appearance",
+    params: {
+      device: deviceParam,
+      appearance: { type: "string", description: "Appearance to switch to", values: ["light", "dark"] },
+    },
+    command: (args) => ({
+      command: "xcrun",
+      args: ["simctl", "ui", args.device || "booted", "appearance", args.appearance],
+    }),
+  })
+
+  registry.register("simctl.shutdown", {
+    description: "Shut down a simulator",
+    params: { device: deviceParam },
+    command: (args) => ({ command: "xcrun", args: ["simctl", "shutdown", args.device || "booted"] }),
+  })
+
+  registry.register("simctl.erase", {
+    description: "Erase all content and settings from a shut down simulator",
+    params: { device: { ...deviceParam, optional: false, pattern: /^[A-Fa-f0-9-]{8,}$/ } },
+    command: (args) => ({ command: "xcrun", args: ["simctl", "erase", args.device] }),
+  })
+
+  registry.register("xcodebuild.clean", {
+    description: "Clean the project's build products",
+    params: { configuration: configurationParam },
+    command: (args, context) => ({
+      command: "xcodebuild",
+      args: ["clean", "-configuration", args.configuration || "Debug", "-derivedDataPath", context.derivedDataPath],
+    }),
+  })
+
+  registry.register("xcodebuild.list", {
+    description: "List the project's targets, configurations and schemes",
+    params: {},
+    command: () => ({ command: "xcodebuild", args: ["-list", "-json"] }),
+  })
+
+  registry.register("xcodebuild.showBuildSettings", {
+    description: "Show the project's build settings",
+    params: { configuration: configurationParam },
+    command: (args) => ({
+      command: "xcodebuild",
+      args: ["-showBuildSettings", "-configuration", args.configuration || "Debug"],
+    }),
+  })
+
+  registry.register("xcodebuild.version", {
+    description: "Show the installed Xcode version",
+    params: {},
+    command: () => ({ command: "xcodebuild", args: ["-version"] }),
+  })
+
+  return registry
+}
@@ -0,0 +1,181 @@
+import * as fs from "fs"
+import * as path from "path"
+import { matchesGlob } from "../src/shared/glob"
+import { resolveProjectPath } from "./pathResolver"
+import { SERVER_DIRECTORY } from "./manifest"
+import { logger } from "./logger"
+
+// Writes to the same file within this window are reported once
+const DEBOUNCE_DELAY = 300
+// Larger outputs are not pushed to clients
+const MAX_OUTPUT_SIZE = 5 * 1024 * 1024
+// Never worth scanning for outputs
+const SKIPPED_DIRECTORIES = new Set(["DerivedData", "uploads", ".git", "node_modules"])
+// The only part of the server's own directory clients are interested in; the rest is build output
+const SERVER_LOGS_DIRECTORY = "logs"
+
+// content is null when the file was deleted
+export type OutputChangeHandler = (relativePath: string, content: Buffer | null) => void
+
+// Watches a project for changes to files matching a set of globs, such as generated sources,
+// Package.resolved or build logs, and reports each file once its writes settle. Directories the
+// client excludes from syncing, such as DerivedData and .build, are not watched at all.
+export class OutputWatcher {
+  // By "/"-separated directory relative to the project, "" for the project itself
+  private watchers: Map<string, fs.FSWatcher> = new Map()
+  private timers: Map<string, NodeJS.Timeout> = new Map()
+
+  constructor(
+    private projectPath: string,
+    private patterns: string[],
+    private onChange: OutputChangeHandler,
+    // Project-relative globs of the client's sync filter excludes
+    private exclude: string[] = [],
+  ) {
+    if (this.watchTree("")) {
+      this.addWatcher("", true)
+    }
+  }
+
+  // Reports every matching file that currently exists
+  scan(relativeDir = ""): void {
+    const dirents = fs.readdirSync(path.join(this.projectPath, relativeDir), { withFileTypes: true })
+
+    for (const dirent of dirents) {
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name
+      if (dirent.isDirectory() && !this.isSkipped(relativePath)) {
+        this.scan(relativePath)
+      } else if (dirent.isFile() && matchesGlob(relativePath, this.patterns)) {
+        this.report(relativePath)
+      }
+    }
+  }
+
+  close(): void {
+    this.watchers.forEach((watcher) => watcher.close())
+    this.watchers.clear()
+    this.timers.forEach((timer) => clearTimeout(timer))
+    this.timers.clear()
+  }
+
+  // Watches the directories below relativeDir with nothing skipped inside recursively and the rest
+  // on their own, so skipped trees never produce events. Returns whether nothing below relativeDir
+  // is skipped, leaving it to the caller to watch relativeDir recursively.
+  private watchTree(relativeDir: string): boolean {
+    const clean: string[] = []
+    let skippedBelow = false
+    for (const dirent of fs.readdirSync(path.join(this.projectPath, relativeDir), { withFileTypes: true })) {
+      if (!dirent.isDirectory()) continue
+
+      const child = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name
+      if (this.isSkipped(child) || !this.watchTree(child)) {
+        skippedBelow = true
+      } else {
+        clean.push(child)
+      }
+    }
+
+    if (!skippedBelow) return true
+    this.addWatcher(relativeDir, false)
+    clean.forEach((child) => this.addWatcher(child, true))
+    return false
+  }
+
+  private addWatcher(relativeDir: string, recursive: boolean): void {
+    const watcher = fs.watch(path.join(this.projectPath, relativeDir), { recursive }, (_event, filename) => {
+      if (!filename) return
+      const name = filename.toString().split(path.sep).join("/")
+      this.handleEvent(relativeDir ? `${relativeDir}/${name}` : name, recursive)
+    })
+    watcher.on("error", (error) => {
+      // The directory was deleted
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.removeWatchers(relativeDir)
+      } else {
+        logger.error("Output watcher failed", error)
+      }
+    })
+    this.watchers.set(relativeDir, watcher)
+  }
+
+  private removeWatchers(relativeDir: string): void {
+    for (const [directory, watcher] of this.watchers) {
+      if (directory === relativeDir || directory.startsWith(`${relativeDir}/`)) {
+        watcher.close()
+        this.watchers.delete(directory)
+      }
+    }
+  }
+
+  private handleEvent(relativePath: string, recursive: boolean): void {
+    const segments = relativePath.split("/")
+    // Recursive watchers also report directories created inside them after they started
+    for (let depth = 1; depth < segments.length; depth++) {
+      if (this.isSkipped(segments.slice(0, depth).join("/"))) return
+    }
+
+    // Directories created next to skipped ones are not covered by any watcher yet
+    if (!recursive && !this.watchers.has(relativePath)) {
+      let stats: fs.Stats | undefined
+      try {
+        stats = fs.lstatSync(path.join(this.projectPath, relativePath))
+      } catch {
+        stats = undefined
+      }
+      if (stats?.isDirectory()) {
+        if (!this.isSkipped(relativePath)) {
+          if (this.watchTree(relativePath)) this.addWatcher(relativePath, true)
+          this.scan(relativePath)
+        }
+        return
+      }
+      if (!stats) this.removeWatchers(relativePath)
+    }
+
+    if (!matchesGlob(relativePath, this.patterns)) return
+
+    clearTimeout(this.timers.get(relativePath))
+    this.timers.set(
+      relativePath,
+      setTimeout(() => this.report(relativePath), DEBOUNCE_DELAY),
+    )
+  }
+
+  private isSkipped(relativeDir: string): boolean {
+    const name = path.posix.basename(relativeDir)
+    if (path.posix.basename(path.posix.dirname(relativeDir)) === SERVER_DIRECTORY) {
+      return name !== SERVER_LOGS_DIRECTORY
+    }
+    if (name === SERVER_DIRECTORY) {
+      return false
+    }
+    // "**/DerivedData/**" excludes everything below the directory, which "<dir>/" stands for
+    return SKIPPED_DIRECTORIES.has(name) || matchesGlob(`${relativeDir}/`, this.exclude)
+  }
+
+  private report(relativePath: string): void {
+    this.timers.delete(relativePath)
+
+    let filePath: string
+    let stats: fs.Stats
+    try {
+      filePath = resolveProjectPath(this.projectPath, relativePath)
+      stats = fs.lstatSync(filePath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.onChange(relativePath, null)
+      }
+      return
+    }
+
+    if (!stats.isFile()) return
+    if (stats.size > MAX_OUTPUT_SIZE) {
+      logger.warn("Not pushing file to the client: it exceeds the size limit", {
+        path: relativePath,
+        bytes: stats.size,
+      })
+      return
+    }
+    this.onChange(relativePath, fs.readFileSync(filePath))
+  }
+}
@@ -0,0 +1,78 @@
+import * as fs from "fs"
+import * as path from "path"
+import type { PathErrorCode } from "../src/shared/protocol"
+
+export class PathResolutionError extends Error {
+  constructor(
+    public readonly code: PathErrorCode,
+    public readonly path: string,
+    message: string,
+  ) {
+    super(message)
+    this.name = "PathResolutionError"
+  }
+}
+
+// Resolves a client-supplied, project-relative path to an absolute path inside `root`.
+// Rejects absolute paths, ".." escapes and paths that leave the root through a symlink.
+export function resolveProjectPath(root: string, relativePath: string): string {
+  if (typeof relativePath !== "string" || relativePath.length === 0 || relativePath.includes("\0")) {
+    throw new PathResolutionError("INVALID_PATH", String(relativePath), "Path must be a non-empty string")
+  }
+
+  // Clients on Windows may send backslash separators
+  const normalized = relativePath.replace(/\\/g, "/")
+  if (path.posix.isAbsolute(normalized) || path.win32.isAbsolute(relativePath)) {
+    throw new PathResolutionError("ABSOLUTE_PATH", relativePath, `Absolute paths are not allowed: ${relativePath}`)
+  }
+
+  const resolvedRoot = path.resolve(root)
+  const resolved = path.resolve(resolvedRoot, normalized)
+  if (resolved === resolvedRoot) {
+    throw new PathResolutionError("INVALID_PATH", relativePath, `Path does not name a file: ${relativePath}`)
+  }
+  if (!isInside(resolvedRoot, resolved)) {
+    throw new PathResolutionError("PATH_TRAVERSAL", relativePath, `Path escapes the project root: ${relativePath}`)
+  }
+
+  // The target may not exist yet, so check the deepest ancestor that does
+  let existing = resolved
+  while (!pathExists(existing) && existing !== resolvedRoot) {
+    existing = path.dirname(existing)
+  }
+
+  if (pathExists(existing)) {
+    let realExisting: string
+    try {
+      realExisting = fs.realpathSync(existing)
+    } catch {
+      // A dangling symlink could be pointed anywhere later, so refuse to write through it
+      throw new PathResolutionError("SYMLINK_ESCAPE", relativePath, `Path is a dangling symlink: ${relativePath}`)
+    }
+
+    if (!isInside(fs.realpathSync(resolvedRoot), realExisting)) {
+      throw new PathResolutionError(
+        "SYMLINK_ESCAPE",
+        relativePath,
+        `Path resolves outside the project root through a symlink: ${relativePath}`,
+      )
+    }
+  }
+
+  return resolved
+}
+
+function isInside(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate)
+  return relative === "" || (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+}
+
+// Unlike fs.existsSync, does not follow symlinks, so dangling links count as existing
+function pathExists(candidate: string): boolean {
+  try {
+    fs.lstatSync(candidate)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,112 @@
+// Parser for XML property lists such as the ones `security cms -D` and `plutil -convert xml1` write.
+// <date> values become Dates and <data> values Buffers.
+
+export type PlistValue = string | number | boolean | Date | Buffer | PlistValue[] | { [key: string]: PlistValue }
+
+type Token = { kind: "open" | "close" | "empty"; name: string } | { kind: "text"; text: string }
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }
+
+// Comments, the XML declaration and the DOCTYPE are skipped
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z0-9]+)[^>]*?(\/?)>|([^<]+)/g
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (entity, name: string) => {
+    if (name.startsWith("#x")) return String.fromCodePoint(parseInt(name.slice(2), 16))
+    if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10))
+    if (name in ENTITIES) return ENTITIES[name]
+    throw new Error(`Unknown entity in property list: ${entity}`)
+  })
+}
+
+function tokenize(xml: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, slash, name, selfClosing, text] = match
+    if (name) {
+      tokens.push({ kind: slash ? "close" : selfClosing ? "empty" : "open", name })
+    } else if (text !== undefined && text.trim()) {
+      tokens.push({ kind: "text", text: decodeEntities(text) })
+    }
+  }
+  return tokens
+}
+
+export function parsePlist(xml: string): PlistValue {
+  const tokens = tokenize(xml)
+  let index = 0
+
+  const next = (): Token => {
+    const token = tokens[index++]
+    if (!token) throw new Error("Unexpected end of property list")
+    return token
+  }
+  const expectClose = (name: string) => {
+    const token = next()
+    if (token.kind !== "close" || token.name !== name) {
+      throw new Error(`Expected </${name}> in property list`)
+    }
+  }
+  // Text content of an element whose opening tag was just read
+  const readText = (name: string): string => {
+    if (tokens[index]?.kind !== "text") {
+      expectClose(name)
+      return ""
+    }
+    const text = (next() as { text: string }).text
+    expectClose(name)
+    return text
+  }
+
+  const readValue = (): PlistValue => {
+    const token = next()
+    if (token.kind !== "open" && token.kind !== "empty") {
+      throw new Error("Expected a value in property list")
+    }
+    const empty = token.kind === "empty"
+    const text = () => (empty ? "" : readText(token.name))
+
+    switch (token.name) {
+      case "plist": {
+        const value = readValue()
+        expectClose("plist")
+        return value
+      }
+      case "dict": {
+        const dict: { [key: string]: PlistValue } = {}
+        while (!empty && tokens[index]?.kind !== "close") {
+          const key = next()
+          if (key.kind !== "open" || key.name !== "key") throw new Error("Expected <key> in property list dict")
+          dict[readText("key")] = readValue()
+        }
+        if (!empty) expectClose("dict")
+        return dict
+      }
+      case "array": {
+        const array: PlistValue[] = []
+        while (!empty && tokens[index]?.kind !== "close") {
+          array.push(readValue())
+        }
+        if (!empty) expectClose("array")
+        return array
+      }
+      case "true":
+      case "false":
+        text()
+        return token.name === "true"
+      case "string":
+        return text()
+      case "integer":
+      case "real":
+        return Number(text())
+      case "date":
+        return new Date(text())
+      case "data":
+        return Buffer.from(text().replace(/\s+/g, ""), "base64")
+      default:
+        throw new Error(`Unsupported property list element: <${token.name}>`)
+    }
+  }
+
+  return readValue()
+}
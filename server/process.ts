@@ -0,0 +1,47 @@
+import { spawn } from "child_process"
+
+export interface ProcessOptions {
+  cwd?: string
+  input?: string
+  signal?: AbortSignal
+  onStdout?: (output: string) => void
+  onStderr?: (output: string) => void
+}
+
+// Runs a command without a shell and resolves with its stdout
+export async function runProcess(command: string, args: string[], options: ProcessOptions = {}): Promise<string> {
+  return (await runProcessForBuffer(command, args, options)).toString()
+}
+
+// Like runProcess, for commands that write binary data such as images to stdout
+export function runProcessForBuffer(command: string, args: string[], options: ProcessOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd: options.cwd, signal: options.signal })
+    const output: Buffer[] = []
+    let error = ""
+
+    child.stdout.on("data", (data: Buffer) => {
+      output.push(data)
+      options.onStdout?.(data.toString())
+    })
+
+    child.stderr.on("data", (data) => {
+      error += data.toString()
+      options.onStderr?.(data.toString())
+    })
+
+    child.on("error", reject)
+
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(output))
+      } else {
+        reject(new Error(error.trim() || `${command} ${args[0] || ""} failed with code ${code}`))
+      }
+    })
+
+    if (options.input !== undefined) {
+      child.stdin.end(options.input)
+    }
+  })
+}
@@ -0,0 +1,82 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, beforeEach, describe, it, mock } from "node:test"
+import { main } from "../cli"
+
+describe("ios-vscode-server", () => {
+  let sandbox: string
+  let output: string[]
+
+  beforeEach(() => {
+    sandbox = fs.mkdtempSync(path.join(os.tmpdir(), "ios-vscode-cli-"))
+    fs.writeFileSync(path.join(sandbox, "config.json"), "{}")
+    output = []
+    const collect = (...args: unknown[]) => output.push(args.join(" "))
+    mock.method(console, "log", collect)
+    mock.method(console, "warn", collect)
+    mock.method(console, "error", collect)
+  })
+
+  afterEach(() => {
+    mock.restoreAll()
+    fs.rmSync(sandbox, { recursive: true, force: true })
+  })
+
+  // Keeps every run away from the config and users in the home directory
+  function run(...args: string[]): Promise<number | null> {
+    return main([
+      "--config",
+      path.join(sandbox, "config.json"),
+      "--users-file",
+      path.join(sandbox, "users.json"),
+      "--project-root",
+      sandbox,
+      "--backend",
+      "fake",
+      ...args,
+    ])
+  }
+
+  it("prints the usage", async () => {
+    assert.strictEqual(await main(["--help"]), 0)
+    assert.match(output.join("\n"), /Usage: ios-vscode-server/)
+  })
+
+  it("rejects unknown arguments and missing values", async () => {
+    assert.strictEqual(await run("--verbose"), 1)
+    assert.match(output[0], /Unknown argument --verbose/)
+
+    output.length = 0
+    assert.strictEqual(await main(["--port"]), 1)
+    assert.match(output[0], /--port needs a value/)
+  })
+
+  it("rejects invalid settings from the command line and the config file", async () => {
+    assert.strictEqual(await run("--max-jobs", "0"), 1)
+    assert.match(output[0], /Invalid server config in command line: maxConcurrentJobs must be a positive integer/)
+
+    output.length = 0
+    assert.strictEqual(await main(["--config", path.join(sandbox, "other.json")]), 1)
+    assert.match(output[0], /Config file .*other\.json does not exist/)
+  })
+
+  it("passes --check once a user can connect", async () => {
+    assert.strictEqual(await run("issue-token", "alice"), 0)
+    output.length = 0
+
+    assert.strictEqual(await run("--check", "--host", "127.0.0.1", "--port", "0"), 0)
+
+    const report = output.join("\n")
+    assert.match(report, /✓ Users file: 1 user can connect/)
+    assert.match(report, /✓ Xcode: 15\.4 \(fake\)/)
+    assert.doesNotMatch(report, /✗/)
+  })
+
+  it("fails --check and names the problem when no user can connect", async () => {
+    assert.strictEqual(await run("--check", "--host", "127.0.0.1", "--port", "0"), 1)
+
+    assert.match(output.join("\n"), /✗ Users file: .*users\.json does not exist; create users with issue-token/)
+  })
+})
@@ -0,0 +1,106 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { DEFAULT_SERVER_CONFIG, loadServerConfig, validateConfig } from "../config"
+
+describe("loadServerConfig", () => {
+  let sandbox: string
+
+  beforeEach(() => {
+    sandbox = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "ios-vscode-config-")))
+  })
+
+  afterEach(() => {
+    fs.rmSync(sandbox, { recursive: true, force: true })
+  })
+
+  function writeConfig(name: string, content: string): string {
+    const configFile = path.join(sandbox, name)
+    fs.writeFileSync(configFile, content)
+    return configFile
+  }
+
+  it("uses the defaults when the config file does not exist", () => {
+    assert.deepStrictEqual(loadServerConfig(path.join(sandbox, "missing.json")), DEFAULT_SERVER_CONFIG)
+  })
+
+  it("resolves paths in a JSON file against its directory and lets overrides win", () => {
+    const configFile = writeConfig(
+      "config.json",
+      JSON.stringify({ port: 9000, projectRoot: "projects", maxConcurrentJobs: 4 }),
+    )
+
+    const config = loadServerConfig(configFile, { maxConcurrentJobs: 1 })
+
+    assert.strictEqual(config.port, 9000)
+    assert.strictEqual(config.projectRoot, path.join(sandbox, "projects"))
+    assert.strictEqual(config.maxConcurrentJobs, 1)
+    assert.strictEqual(config.path, DEFAULT_SERVER_CONFIG.path)
+  })
+
+  it("reads YAML files with comments, quoted values and sequences", () => {
+    const configFile = writeConfig(
+      "config.yaml",
+      [
+        "# Build Mac in the office",
+        'host: "127.0.0.1" # tunnel only',
+        "path: '/ios#vscode'",
+        "logLevel: warn # it's noisy otherwise",
+        "allowedUsers:",
+        "  - alice",
+        "  - bob",
+        "",
+      ].join("\n"),
+    )
+
+    const config = loadServerConfig(configFile)
+
+    assert.strictEqual(config.host, "127.0.0.1")
+    assert.strictEqual(config.path, "/ios#vscode")
+    assert.strictEqual(config.logLevel, "warn")
+    assert.deepStrictEqual(config.allowedUsers, ["alice", "bob"])
+  })
+
+  it("reports the line of YAML syntax errors", () => {
+    const configFile = writeConfig("config.yml", "port: 9000\nport: 9001\n")
+
+    assert.throws(() => loadServerConfig(configFile), /Invalid server config in .*config\.yml: .*at line 2/)
+  })
+
+  it("rejects sequences of mappings where strings are expected", () => {
+    const configFile = writeConfig("config.yaml", "allowedUsers:\n  - name: alice\n")
+
+    assert.throws(() => loadServerConfig(configFile), /allowedUsers must be a list of strings/)
+  })
+
+  it("rejects files that are not an object", () => {
+    const configFile = writeConfig("config.json", "[1, 2]")
+
+    assert.throws(() => loadServerConfig(configFile), /expected an object/)
+  })
+
+  it("requires tlsCert and tlsKey together", () => {
+    assert.throws(
+      () => loadServerConfig(path.join(sandbox, "missing.json"), { tlsCert: "/cert.pem" }),
+      /tlsCert and tlsKey must be set together/,
+    )
+  })
+})
+
+describe("validateConfig", () => {
+  it("rejects unknown settings and values of the wrong kind", () => {
+    assert.throws(() => validateConfig({ prot: 8080 }, "/", "test"), /unknown setting prot/)
+    assert.throws(() => validateConfig({ port: 70000 }, "/", "test"), /port must be a port number/)
+    assert.throws(() => validateConfig({ maxJobsPerSession: 0 }, "/", "test"), /must be a positive integer/)
+    assert.throws(() => validateConfig({ path: "ios" }, "/", "test"), /path must start with \//)
+    assert.throws(() => validateConfig({ logLevel: "verbose" }, "/", "test"), /logLevel must be one of/)
+  })
+
+  it("drops unset values and expands ~ in paths", () => {
+    const config = validateConfig({ host: null, usersFile: "~/users.json" }, "/", "test")
+
+    assert.deepStrictEqual(config, { usersFile: path.join(process.env.HOME || "/tmp", "users.json") })
+  })
+})
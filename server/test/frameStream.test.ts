@@ -0,0 +1,79 @@
+import * as assert from "assert"
+import { afterEach, describe, it } from "node:test"
+import { FrameStream } from "../frameStream"
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe("FrameStream", () => {
+  let stream: FrameStream | undefined
+
+  afterEach(() => stream?.stop())
+
+  function startStream(capture: () => Buffer, { ack = true } = {}) {
+    const counts = { captures: 0, sent: 0 }
+    stream = new FrameStream({
+      capture: async () => {
+        counts.captures++
+        return capture()
+      },
+      send: (_image, sequence) => {
+        counts.sent++
+        if (ack) stream!.ack(sequence)
+      },
+      onError: (error) => assert.fail(error),
+      maxFps: 30,
+    })
+    stream.start()
+    return counts
+  }
+
+  it("sends changed frames at the frame rate", async () => {
+    let frame = 0
+    const counts = startStream(() => Buffer.from([frame++]))
+
+    await delay(500)
+
+    assert.ok(counts.sent >= 8, `sent ${counts.sent} frames`)
+    assert.strictEqual(counts.sent, counts.captures)
+  })
+
+  it("does not send a frame that matches the last one", async () => {
+    const counts = startStream(() => Buffer.from([0]))
+
+    await delay(300)
+
+    assert.strictEqual(counts.sent, 1)
+    assert.ok(counts.captures > 1, `captured ${counts.captures} times`)
+  })
+
+  it("stops sending while too many frames wait for an acknowledgement", async () => {
+    let frame = 0
+    const counts = startStream(() => Buffer.from([frame++]), { ack: false })
+
+    await delay(300)
+
+    assert.strictEqual(counts.sent, 2)
+  })
+
+  it("backs off while the screen does not change", async () => {
+    const counts = startStream(() => Buffer.from([0]))
+
+    await delay(1000)
+
+    // About 30 at the full frame rate
+    assert.strictEqual(counts.sent, 1)
+    assert.ok(counts.captures <= 7, `captured ${counts.captures} times`)
+  })
+
+  it("captures right away on refresh after backing off", async () => {
+    const counts = startStream(() => Buffer.from([0]))
+    // Waiting between the captures at about 500ms and 1000ms
+    await delay(700)
+
+    const captures = counts.captures
+    stream!.refresh()
+    await delay(20)
+
+    assert.strictEqual(counts.captures, captures + 1)
+  })
+})
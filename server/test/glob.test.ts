@@ -0,0 +1,50 @@
+import * as assert from "assert"
+import { describe, it } from "node:test"
+import { globToRegExp, matchesGlob } from "../../src/shared/glob"
+
+describe("globToRegExp", () => {
+  it("matches * and ? within one directory and ** across directories", () => {
+    assert.ok(matchesGlob("Sources/App.swift", "Sources/*.swift"))
+    assert.ok(!matchesGlob("Sources/Views/Home.swift", "Sources/*.swift"))
+    assert.ok(matchesGlob("Sources/Views/Home.swift", "**/*.swift"))
+    assert.ok(matchesGlob("App.swift", "**/*.swift"))
+    assert.ok(matchesGlob(".build/debug/App", ".build/**"))
+    assert.ok(matchesGlob("a1.txt", "a?.txt"))
+    assert.ok(!matchesGlob("a/.txt", "a?.txt"))
+  })
+
+  it("matches alternatives and character classes", () => {
+    assert.ok(matchesGlob("Package.resolved", "{Package.resolved,*.xcodeproj}"))
+    assert.ok(matchesGlob("App.xcodeproj", "{Package.resolved,*.xcodeproj}"))
+    assert.ok(matchesGlob("log1.txt", "log[0-9].txt"))
+    assert.ok(!matchesGlob("log1.txt", "log[!0-9].txt"))
+    assert.ok(matchesGlob("logs/a.log", ["*.txt", "logs/*.log"]))
+  })
+
+  it("matches other regular expression characters literally", () => {
+    assert.ok(matchesGlob("a+b(1).txt", "a+b(1).txt"))
+    assert.ok(!matchesGlob("aXtxt", "a.txt"))
+    assert.ok(matchesGlob("a}b,c", "a}b,c"))
+  })
+
+  it("matches unbalanced braces and brackets literally", () => {
+    assert.ok(matchesGlob("{a,b", "{a,b"))
+    assert.ok(matchesGlob("x{a", "x{{a,b}"))
+    assert.ok(matchesGlob("[abc", "[abc"))
+    assert.ok(matchesGlob("a}", "{a}}"))
+  })
+
+  it("matches known_hosts patterns with only * and ? special, ignoring case", () => {
+    const host = (pattern: string) => globToRegExp(pattern, { hostPattern: true })
+
+    assert.ok(host("*.example.com").test("Build.Mac.EXAMPLE.com"))
+    assert.ok(host("mac?").test("mac1"))
+    assert.ok(host("[mac.local]:2222").test("[mac.local]:2222"))
+    assert.ok(!host("[mac.local]:2222").test("m:2222"))
+    assert.ok(!host("{a,b}").test("a"))
+  })
+
+  it("throws a descriptive error for patterns that cannot be matched", () => {
+    assert.throws(() => globToRegExp("[z-a].txt"), /Invalid glob pattern "\[z-a\]\.txt"/)
+  })
+})
@@ -0,0 +1,172 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as net from "net"
+import * as os from "os"
+import * as path from "path"
+import { once } from "events"
+import { after, before, describe, it } from "node:test"
+import WebSocket from "ws"
+import { iOSServer } from "../ios-server"
+import { Authenticator } from "../auth"
+import { DEFAULT_SERVER_CONFIG, type ServerConfig } from "../config"
+import { logger } from "../logger"
+import { FakeSimulatorBackend } from "../backends/fakeBackend"
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from "../../src/shared/protocol"
+
+interface Message {
+  type: string
+  data: any
+  id?: string
+}
+
+async function findFreePort(): Promise<number> {
+  const probe = net.createServer().listen(0, "127.0.0.1")
+  await once(probe, "listening")
+  const { port } = probe.address() as net.AddressInfo
+  await new Promise((resolve) => probe.close(resolve))
+  return port
+}
+
+// Talks to the server the way the extension does: JSON requests with ids, answered by <type>_response or error
+class TestClient {
+  readonly events: Message[] = []
+  private nextId = 0
+  private pending = new Map<string, (message: Message) => void>()
+
+  private constructor(private ws: WebSocket) {
+    ws.on("message", (raw: WebSocket.RawData, isBinary: boolean) => {
+      if (isBinary) return
+      const message: Message = JSON.parse(raw.toString())
+      const resolve = message.id !== undefined ? this.pending.get(message.id) : undefined
+      if (resolve && (message.type.endsWith("_response") || message.type === "error")) {
+        this.pending.delete(message.id!)
+        resolve(message)
+      } else {
+        this.events.push(message)
+      }
+    })
+  }
+
+  static async connect(url: string): Promise<TestClient> {
+    const ws = new WebSocket(url)
+    await once(ws, "open")
+    return new TestClient(ws)
+  }
+
+  async request(type: string, data: object = {}): Promise<any> {
+    const id = String(++this.nextId)
+    const response = new Promise<Message>((resolve) => this.pending.set(id, resolve))
+    this.ws.send(JSON.stringify({ type, data, id }))
+
+    const message = await response
+    if (message.type === "error") {
+      throw new Error(`${type} failed: ${message.data.message}`)
+    }
+    assert.strictEqual(message.type, `${type}_response`)
+    return message.data
+  }
+
+  close(): void {
+    this.ws.close()
+  }
+}
+
+describe("iOSServer", () => {
+  let sandbox: string
+  let config: ServerConfig
+  let authenticator: Authenticator
+  let server: iOSServer
+  let client: TestClient
+
+  before(async () => {
+    logger.setLevel("error")
+    sandbox = fs.mkdtempSync(path.join(os.tmpdir(), "ios-vscode-server-"))
+    config = {
+      ...DEFAULT_SERVER_CONFIG,
+      port: await findFreePort(),
+      host: "127.0.0.1",
+      projectRoot: path.join(sandbox, "projects"),
+      usersFile: path.join(sandbox, "users.json"),
+      screenshotDirectory: sandbox,
+    }
+    authenticator = new Authenticator(config.usersFile, config.projectRoot)
+    const token = authenticator.issueToken("alice")
+    server = new iOSServer(config, new FakeSimulatorBackend({ stepDelay: 0 }), authenticator)
+    await server.listening
+
+    client = await TestClient.connect(`ws://127.0.0.1:${config.port}${config.path}`)
+    await client.request("hello", { protocolVersion: PROTOCOL_VERSION, minProtocolVersion: MIN_PROTOCOL_VERSION })
+    await client.request("authenticate", { username: "alice", token })
+  })
+
+  after(async () => {
+    client?.close()
+    await server?.close()
+    fs.rmSync(sandbox, { recursive: true, force: true })
+  })
+
+  it("accepts newer clients that still speak its protocol version", async () => {
+    const hello = await client.request("hello", {
+      protocolVersion: PROTOCOL_VERSION + 1,
+      minProtocolVersion: MIN_PROTOCOL_VERSION,
+    })
+
+    assert.strictEqual(hello.protocolVersion, PROTOCOL_VERSION)
+    assert.strictEqual(hello.minProtocolVersion, MIN_PROTOCOL_VERSION)
+  })
+
+  it("rejects listening when the port is already in use", async () => {
+    const other = new iOSServer(
+      { ...DEFAULT_SERVER_CONFIG, port: config.port, host: "127.0.0.1", projectRoot: config.projectRoot },
+      new FakeSimulatorBackend(),
+      authenticator,
+    )
+
+    await assert.rejects(other.listening, /EADDRINUSE/)
+    await other.close()
+  })
+
+  it("lists the backend's simulators", async () => {
+    const { simulators } = await client.request("get_simulators")
+
+    assert.ok(simulators.length > 0)
+    assert.ok(simulators.some((simulator: { name: string }) => simulator.name === "iPhone 15 Pro"))
+  })
+
+  it("reads provisioning profiles with dates and data from the backend", async () => {
+    const { profiles } = await client.request("get_provisioning_profiles")
+
+    assert.deepStrictEqual(profiles, [
+      {
+        id: "00000000-0000-0000-0000-0000000000AA",
+        name: "iOS Team Provisioning Profile: com.example.FakeApp",
+        appId: "com.example.FakeApp",
+        teamId: "FAKETEAM01",
+        type: "development",
+        expirationDate: "2099-01-01T00:00:00.000Z",
+        devices: ["00008101-000000000000FAKE"],
+      },
+    ])
+  })
+
+  it("rejects invalid watch patterns", async () => {
+    await assert.rejects(client.request("watch_files", { patterns: ["Generated/**", "[z-a]"] }), /Invalid glob pattern/)
+  })
+
+  it("builds a synced project and streams the build output", async () => {
+    await client.request("sync_project", {
+      files: [{ path: "Sources/App.swift", content: 'import SwiftUI\n#warning("Not done yet")\n' }],
+    })
+
+    const build = await client.request("build_project")
+
+    assert.strictEqual(build.success, true)
+    assert.match(build.appPath, /\/alice\.app$/)
+    const output = client.events
+      .filter((event) => event.type === "build_output")
+      .map((event) => event.data.output)
+      .join("")
+    assert.match(output, /CompileSwift normal arm64 .*App\.swift/)
+    assert.match(output, /App\.swift:2:1: warning: Not done yet/)
+  })
+})
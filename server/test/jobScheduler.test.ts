@@ -0,0 +1,119 @@
+import * as assert from "assert"
+import { describe, it } from "node:test"
+import { JobScheduler, type JobLimits, type JobRequest, type RunningJob } from "../jobScheduler"
+import type { JobPriority } from "../../src/shared/protocol"
+
+const settle = () => new Promise((resolve) => setImmediate(resolve))
+
+function createScheduler(limits: JobLimits) {
+  const scheduler = new JobScheduler(limits, () => {})
+  const started: string[] = []
+  const jobs = new Map<string, RunningJob>()
+
+  // Named jobs record when they start; the session doubles as the username
+  const enqueue = (
+    name: string,
+    sessionId: string,
+    priority: JobPriority = "normal",
+    extra: Partial<JobRequest> = {},
+  ) =>
+    scheduler
+      .enqueue({
+        type: name,
+        sessionId,
+        username: sessionId,
+        priority,
+        signal: new AbortController().signal,
+        ...extra,
+      })
+      .then((job) => {
+        started.push(name)
+        jobs.set(name, job)
+        return job
+      })
+
+  return { scheduler, started, jobs, enqueue }
+}
+
+describe("JobScheduler", () => {
+  it("starts waiting jobs by priority, oldest first within a priority", async () => {
+    const { started, jobs, enqueue } = createScheduler({ maxConcurrentJobs: 1, maxJobsPerSession: 1 })
+    enqueue("running", "a")
+    enqueue("low", "b", "low")
+    enqueue("normal 1", "c")
+    enqueue("high", "d", "high")
+    enqueue("normal 2", "e")
+    await settle()
+
+    for (const name of ["running", "high", "normal 1", "normal 2"]) {
+      jobs.get(name)!.finish()
+      await settle()
+    }
+
+    assert.deepStrictEqual(started, ["running", "high", "normal 1", "normal 2", "low"])
+  })
+
+  it("holds a session at its limit without holding up other sessions", async () => {
+    const { scheduler, started, jobs, enqueue } = createScheduler({ maxConcurrentJobs: 2, maxJobsPerSession: 1 })
+    enqueue("a1", "a")
+    enqueue("a2", "a", "high")
+    enqueue("b1", "b")
+    await settle()
+
+    assert.deepStrictEqual(started, ["a1", "b1"])
+    assert.deepStrictEqual(
+      scheduler.list().map((job) => [job.type, job.state]),
+      [
+        ["a1", "running"],
+        ["a2", "queued"],
+        ["b1", "running"],
+      ],
+    )
+
+    jobs.get("a1")!.finish()
+    await settle()
+
+    assert.deepStrictEqual(started, ["a1", "b1", "a2"])
+  })
+
+  it("rejects a cancelled queued job and moves the jobs behind it up", async () => {
+    const { scheduler, started, jobs, enqueue } = createScheduler({ maxConcurrentJobs: 1, maxJobsPerSession: 1 })
+    const positions: number[] = []
+    enqueue("running", "a")
+    const cancelled = enqueue("cancelled", "b")
+    enqueue("next", "c", "normal", { onQueued: (position) => positions.push(position) })
+    await settle()
+
+    const cancelledId = scheduler.list().find((job) => job.type === "cancelled")!.id
+    assert.strictEqual(scheduler.cancel(cancelledId, "someone else"), false)
+    assert.strictEqual(scheduler.cancel(cancelledId, "b"), true)
+
+    await assert.rejects(cancelled, /Job \d+ \(cancelled\) was cancelled/)
+    assert.deepStrictEqual(positions, [1, 0])
+    assert.deepStrictEqual(
+      scheduler.list().map((job) => job.type),
+      ["running", "next"],
+    )
+
+    jobs.get("running")!.finish()
+    await settle()
+
+    assert.deepStrictEqual(started, ["running", "next"])
+  })
+
+  it("rejects a queued job when its request is aborted", async () => {
+    const { scheduler, enqueue } = createScheduler({ maxConcurrentJobs: 1, maxJobsPerSession: 1 })
+    const abort = new AbortController()
+    enqueue("running", "a")
+    const aborted = enqueue("aborted", "b", "normal", { signal: abort.signal })
+    await settle()
+
+    abort.abort()
+
+    await assert.rejects(aborted, /Request was cancelled/)
+    assert.deepStrictEqual(
+      scheduler.list().map((job) => job.type),
+      ["running"],
+    )
+  })
+})
@@ -0,0 +1,101 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { PathResolutionError, resolveProjectPath } from "../pathResolver"
+import type { PathErrorCode } from "../../src/shared/protocol"
+
+function assertRejected(root: string, relativePath: string, code: PathErrorCode): void {
+  assert.throws(
+    () => resolveProjectPath(root, relativePath),
+    (error: unknown) => error instanceof PathResolutionError && error.code === code,
+  )
+}
+
+describe("resolveProjectPath", () => {
+  let sandbox: string
+  let root: string
+
+  beforeEach(() => {
+    sandbox = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "ios-vscode-paths-")))
+    root = path.join(sandbox, "project")
+    fs.mkdirSync(path.join(root, "Sources"), { recursive: true })
+    fs.writeFileSync(path.join(root, "Sources", "App.swift"), "")
+  })
+
+  afterEach(() => {
+    fs.rmSync(sandbox, { recursive: true, force: true })
+  })
+
+  it("resolves files inside the root, including ones that do not exist yet", () => {
+    assert.strictEqual(resolveProjectPath(root, "Sources/App.swift"), path.join(root, "Sources", "App.swift"))
+    assert.strictEqual(resolveProjectPath(root, "New/Dir/File.swift"), path.join(root, "New", "Dir", "File.swift"))
+  })
+
+  it("rejects empty paths, NUL bytes and the root itself", () => {
+    assertRejected(root, "", "INVALID_PATH")
+    assertRejected(root, "Sources/App\0.swift", "INVALID_PATH")
+    assertRejected(root, ".", "INVALID_PATH")
+    assertRejected(root, "Sources/..", "INVALID_PATH")
+  })
+
+  it("rejects absolute paths", () => {
+    assertRejected(root, "/etc/passwd", "ABSOLUTE_PATH")
+    assertRejected(root, path.join(root, "Sources", "App.swift"), "ABSOLUTE_PATH")
+    assertRejected(root, "C:\\Windows\\win.ini", "ABSOLUTE_PATH")
+    assertRejected(root, "\\\\server\\share\\file", "ABSOLUTE_PATH")
+  })
+
+  it("rejects .. escapes but allows .. that stays inside the root", () => {
+    assertRejected(root, "..", "PATH_TRAVERSAL")
+    assertRejected(root, "../outside.txt", "PATH_TRAVERSAL")
+    assertRejected(root, "Sources/../../outside.txt", "PATH_TRAVERSAL")
+    // A sibling directory sharing the root's name as a prefix is still outside
+    assertRejected(root, "../project-other/file.txt", "PATH_TRAVERSAL")
+    assert.strictEqual(resolveProjectPath(root, "Sources/../Package.swift"), path.join(root, "Package.swift"))
+  })
+
+  it("treats backslashes as separators", () => {
+    assert.strictEqual(resolveProjectPath(root, "Sources\\App.swift"), path.join(root, "Sources", "App.swift"))
+    assertRejected(root, "..\\outside.txt", "PATH_TRAVERSAL")
+    assertRejected(root, "Sources\\..\\..\\outside.txt", "PATH_TRAVERSAL")
+  })
+
+  it("rejects paths that leave the root through a symlink", () => {
+    const outside = path.join(sandbox, "outside")
+    fs.mkdirSync(outside)
+    fs.writeFileSync(path.join(outside, "secret.txt"), "")
+    fs.symlinkSync(outside, path.join(root, "Linked"))
+    fs.symlinkSync(path.join(outside, "secret.txt"), path.join(root, "secret.txt"))
+
+    assertRejected(root, "Linked", "SYMLINK_ESCAPE")
+    assertRejected(root, "Linked/secret.txt", "SYMLINK_ESCAPE")
+    // Not yet existing files below the link would be created outside the root as well
+    assertRejected(root, "Linked/New/File.swift", "SYMLINK_ESCAPE")
+    assertRejected(root, "secret.txt", "SYMLINK_ESCAPE")
+  })
+
+  it("allows symlinks that stay inside the root", () => {
+    fs.symlinkSync(path.join(root, "Sources"), path.join(root, "Alias"))
+
+    assert.strictEqual(resolveProjectPath(root, "Alias/App.swift"), path.join(root, "Alias", "App.swift"))
+  })
+
+  it("rejects dangling symlinks", () => {
+    fs.symlinkSync(path.join(sandbox, "missing"), path.join(root, "Dangling"))
+
+    assertRejected(root, "Dangling", "SYMLINK_ESCAPE")
+    assertRejected(root, "Dangling/File.swift", "SYMLINK_ESCAPE")
+  })
+
+  it("resolves against the real root when the root itself is reached through a symlink", () => {
+    const linkedRoot = path.join(sandbox, "linked-project")
+    fs.symlinkSync(root, linkedRoot)
+
+    assert.strictEqual(
+      resolveProjectPath(linkedRoot, "Sources/App.swift"),
+      path.join(linkedRoot, "Sources", "App.swift"),
+    )
+  })
+})
@@ -0,0 +1,58 @@
+import * as assert from "assert"
+import { describe, it } from "node:test"
+import { parsePlist } from "../plist"
+
+describe("parsePlist", () => {
+  it("parses dicts, arrays and scalar values", () => {
+    const value = parsePlist(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <!-- a comment -->
+  <key>Name</key>
+  <string>Tom &amp; Jerry &#x263A;</string>
+  <key>Count</key>
+  <integer>42</integer>
+  <key>Ratio</key>
+  <real>0.5</real>
+  <key>Flags</key>
+  <array><true/><false/></array>
+  <key>Empty</key>
+  <string></string>
+  <key>Nothing</key>
+  <dict/>
+</dict>
+</plist>`)
+
+    assert.deepStrictEqual(value, {
+      Name: "Tom & Jerry ☺",
+      Count: 42,
+      Ratio: 0.5,
+      Flags: [true, false],
+      Empty: "",
+      Nothing: {},
+    })
+  })
+
+  it("turns dates into Dates and data into Buffers", () => {
+    const value = parsePlist(`<plist><dict>
+  <key>ExpirationDate</key>
+  <date>2099-01-01T00:00:00Z</date>
+  <key>Certificate</key>
+  <data>
+  aGVs
+  bG8=
+  </data>
+</dict></plist>`) as { ExpirationDate: Date; Certificate: Buffer }
+
+    assert.strictEqual(value.ExpirationDate.toISOString(), "2099-01-01T00:00:00.000Z")
+    assert.strictEqual(value.Certificate.toString(), "hello")
+  })
+
+  it("rejects malformed property lists", () => {
+    assert.throws(() => parsePlist("<plist><dict><key>A</key></dict></plist>"), /Expected a value/)
+    assert.throws(() => parsePlist("<plist><dict><string>A</string></dict></plist>"), /Expected <key>/)
+    assert.throws(() => parsePlist("<plist><array><string>A</string>"), /Unexpected end/)
+    assert.throws(() => parsePlist("<plist><uid>1</uid></plist>"), /Unsupported/)
+  })
+})
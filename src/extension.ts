@@ -1,7 +1,10 @@
 import * as vscode from "vscode"
 import { SimulatorProvider } from "./providers/simulatorProvider"
 import { DeviceProvider } from "./providers/deviceProvider"
+import { JobsProvider, type JobItem } from "./providers/jobsProvider"
 import { ServerConnection } from "./services/serverConnection"
+import { ServerProfileService, type ServerProfile } from "./services/serverProfileService"
+import { ConnectionStatusBar } from "./services/connectionStatusBar"
 import { SwiftLanguageService } from "./services/swiftLanguageService"
 import { HotReloadService } from "./services/hotReloadService"
 import { SimulatorService } from "./services/simulatorService"
@@ -10,6 +13,7 @@ import { DeploymentService } from "./services/deploymentService"
 import { registerHotReloadCommands } from "./commands/hotReloadCommands"
 
 let serverConnection: ServerConnection
+let serverProfileService: ServerProfileService
 let swiftLanguageService: SwiftLanguageService
 let hotReloadService: HotReloadService
 let simulatorService: SimulatorService
@@ -20,7 +24,9 @@ export function activate(context: vscode.ExtensionContext) {
   console.log("iOS for VS Code extension is now active!")
 
   // Initialize services
-  serverConnection = new ServerConnection()
+  serverConnection = new ServerConnection(context.secrets)
+  serverProfileService = new ServerProfileService(context.workspaceState)
+  const connectionStatusBar = new ConnectionStatusBar(serverConnection, serverProfileService)
   swiftLanguageService = new SwiftLanguageService(serverConnection)
   hotReloadService = new HotReloadService(serverConnection)
   simulatorService = new SimulatorService(serverConnection)
@@ -30,40 +36,41 @@ export function activate(context: vscode.ExtensionContext) {
   // Register providers
   const simulatorProvider = new SimulatorProvider(serverConnection)
   const deviceProvider = new DeviceProvider(serverConnection)
+  const jobsProvider = new JobsProvider(serverConnection)
 
   // Register tree data providers
   vscode.window.registerTreeDataProvider("ios-simulator", simulatorProvider)
   vscode.window.registerTreeDataProvider("ios-devices", deviceProvider)
+  vscode.window.registerTreeDataProvider("ios-server-jobs", jobsProvider)
 
   // Register hot reload commands
   registerHotReloadCommands(context, hotReloadService)
 
   // Register commands
+  const connectToProfile = async (profile: ServerProfile) => {
+    if (serverConnection.getProfile()) {
+      serverConnection.disconnect()
+    }
+    await serverProfileService.setActiveProfile(profile)
+    await serverConnection.connect(profile)
+  }
+
+  // Reconnects to the server last used in this workspace, or asks which one to use
   const connectCommand = vscode.commands.registerCommand("ios-vscode.connectServer", async () => {
-    const config = vscode.workspace.getConfiguration("ios-vscode")
-    const host = config.get<string>("serverHost")
-    const port = config.get<number>("serverPort")
-    const username = config.get<string>("sshUsername")
-
-    if (!host || !username) {
-      const hostInput = await vscode.window.showInputBox({
-        prompt: "Enter macOS server hostname or IP address",
-        value: host || "",
-      })
-
-      const usernameInput = await vscode.window.showInputBox({
-        prompt: "Enter SSH username",
-        value: username || "",
-      })
-
-      if (hostInput && usernameInput) {
-        await config.update("serverHost", hostInput, vscode.ConfigurationTarget.Global)
-        await config.update("sshUsername", usernameInput, vscode.ConfigurationTarget.Global)
-
-        await serverConnection.connect(hostInput, port || 8080, usernameInput)
-      }
-    } else {
-      await serverConnection.connect(host, port || 8080, username)
+    const profiles = serverProfileService.getProfiles()
+    const profile =
+      serverProfileService.getLastUsedProfile() ||
+      (profiles.length === 1 ? profiles[0] : await serverProfileService.pickProfile())
+
+    if (profile) {
+      await connectToProfile(profile)
+    }
+  })
+
+  const switchServerCommand = vscode.commands.registerCommand("ios-vscode.switchServer", async () => {
+    const profile = await serverProfileService.pickProfile("Switch to macOS server")
+    if (profile) {
+      await connectToProfile(profile)
     }
   })
 
@@ -89,6 +96,24 @@ export function activate(context: vscode.ExtensionContext) {
     },
   )
 
+  const refreshJobsCommand = vscode.commands.registerCommand("ios-vscode.refreshJobs", () => {
+    jobsProvider.refresh()
+  })
+
+  const refreshDevicesCommand = vscode.commands.registerCommand("ios-vscode.refreshDevices", () => {
+    deviceProvider.refresh()
+  })
+
+  const cancelJobCommand = vscode.commands.registerCommand("ios-vscode.cancelJob", async (item: JobItem) => {
+    try {
+      if (!(await serverConnection.cancelJob(item.job.id))) {
+        vscode.window.showWarningMessage(`Job ${item.job.type} has already finished`)
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to cancel job: ${error}`)
+    }
+  })
+
   const hotReloadCommand = vscode.commands.registerCommand("ios-vscode.hotReload", () => {
     hotReloadService.toggle()
   })
@@ -214,9 +239,20 @@ export function activate(context: vscode.ExtensionContext) {
     {
       dispose: () => hotReloadService.dispose(),
     },
+    serverConnection,
+    serverProfileService,
+    connectionStatusBar,
+    simulatorService,
+    simulatorProvider,
+    deviceProvider,
+    jobsProvider,
     connectCommand,
+    switchServerCommand,
     openSimulatorCommand,
     selectDeviceCommand,
+    refreshJobsCommand,
+    refreshDevicesCommand,
+    cancelJobCommand,
     hotReloadCommand,
     startDebuggingCommand,
     addWatchCommand,
@@ -237,7 +273,7 @@ function getCertificatesWebview(certificates: any[]): string {
     <tr class="${cert.isValid ? "valid" : "expired"}">
       <td>${cert.name}</td>
       <td>${cert.type}</td>
-      <td>${cert.expirationDate.toLocaleDateString()}</td>
+      <td>${cert.expirationDate ? cert.expirationDate.toLocaleDateString() : "unknown"}</td>
       <td>${cert.isValid ? "Valid" : "Expired"}</td>
     </tr>
   `,
@@ -7,12 +7,22 @@ export class DeviceProvider implements vscode.TreeDataProvider<DeviceItem> {
   >()
   readonly onDidChangeTreeData: vscode.Event<DeviceItem | undefined | null | void> = this._onDidChangeTreeData.event
 
-  constructor(private serverConnection: ServerConnection) {}
+  private subscriptions: vscode.Disposable[]
+
+  constructor(private serverConnection: ServerConnection) {
+    // The server does not announce device changes; the view's refresh button asks again
+    this.subscriptions = [this.serverConnection.onConnectionStateChanged(() => this.refresh())]
+  }
 
   refresh(): void {
     this._onDidChangeTreeData.fire()
   }
 
+  dispose(): void {
+    this.subscriptions.forEach((subscription) => subscription.dispose())
+    this._onDidChangeTreeData.dispose()
+  }
+
   getTreeItem(element: DeviceItem): vscode.TreeItem {
     return element
   }
@@ -0,0 +1,68 @@
+import * as vscode from "vscode"
+import type { JobInfo } from "../shared/protocol"
+import type { ServerConnection } from "../services/serverConnection"
+
+// Builds, deploys and uploads queued or running on the server, for every user
+export class JobsProvider implements vscode.TreeDataProvider<JobItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<JobItem | undefined | null | void> = new vscode.EventEmitter<
+    JobItem | undefined | null | void
+  >()
+  readonly onDidChangeTreeData: vscode.Event<JobItem | undefined | null | void> = this._onDidChangeTreeData.event
+
+  private subscriptions: vscode.Disposable[]
+  // Latest list pushed by the server; null until the first push or after a refresh
+  private jobs: JobInfo[] | null = null
+
+  constructor(private serverConnection: ServerConnection) {
+    this.subscriptions = [
+      this.serverConnection.onJobsChanged((jobs) => {
+        this.jobs = jobs
+        this._onDidChangeTreeData.fire()
+      }),
+      this.serverConnection.onConnectionStateChanged(() => this.refresh()),
+    ]
+  }
+
+  refresh(): void {
+    this.jobs = null
+    this._onDidChangeTreeData.fire()
+  }
+
+  dispose(): void {
+    this.subscriptions.forEach((subscription) => subscription.dispose())
+    this._onDidChangeTreeData.dispose()
+  }
+
+  getTreeItem(element: JobItem): vscode.TreeItem {
+    return element
+  }
+
+  async getChildren(element?: JobItem): Promise<JobItem[]> {
+    if (element || !this.serverConnection.isConnected()) {
+      return []
+    }
+
+    try {
+      const jobs = this.jobs || (await this.serverConnection.listJobs())
+      const username = this.serverConnection.getProfile()?.username
+      return jobs.map((job) => new JobItem(job, job.username === username))
+    } catch (error) {
+      return []
+    }
+  }
+}
+
+export class JobItem extends vscode.TreeItem {
+  constructor(
+    public readonly job: JobInfo,
+    own: boolean,
+  ) {
+    super(job.type, vscode.TreeItemCollapsibleState.None)
+
+    const state = job.state === "running" ? "running" : `queued, ${job.queuePosition ?? 0} ahead`
+    this.description = `${state} · ${job.username}`
+    this.tooltip = `${job.type} (${job.priority} priority) for ${job.username}, ${state}`
+    this.contextValue = own ? "serverJob.own" : "serverJob"
+    this.iconPath = new vscode.ThemeIcon(job.state === "running" ? "sync~spin" : "clock")
+  }
+}
@@ -8,12 +8,21 @@ export class SimulatorProvider implements vscode.TreeDataProvider<SimulatorItem>
   >()
   readonly onDidChangeTreeData: vscode.Event<SimulatorItem | undefined | null | void> = this._onDidChangeTreeData.event
 
-  constructor(private serverConnection: ServerConnection) {}
+  private subscriptions: vscode.Disposable[]
+
+  constructor(private serverConnection: ServerConnection) {
+    this.subscriptions = [this.serverConnection.onConnectionStateChanged(() => this.refresh())]
+  }
 
   refresh(): void {
     this._onDidChangeTreeData.fire()
   }
 
+  dispose(): void {
+    this.subscriptions.forEach((subscription) => subscription.dispose())
+    this._onDidChangeTreeData.dispose()
+  }
+
   getTreeItem(element: SimulatorItem): vscode.TreeItem {
     return element
   }
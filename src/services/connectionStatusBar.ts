@@ -0,0 +1,132 @@
+import * as vscode from "vscode"
+import type { ConnectionStatus, ServerConnection } from "./serverConnection"
+import type { ServerProfileService } from "./serverProfileService"
+
+// Persistent status bar item for the server connection: active server, state, latency and Xcode version
+export class ConnectionStatusBar {
+  private statusBarItem: vscode.StatusBarItem
+  private disposables: vscode.Disposable[] = []
+
+  constructor(
+    private serverConnection: ServerConnection,
+    private serverProfileService: ServerProfileService,
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 101)
+    this.statusBarItem.command = "ios-vscode.connectionMenu"
+
+    this.disposables.push(
+      this.serverConnection.onDidChangeStatus(() => this.update()),
+      this.serverProfileService.onDidChangeActiveProfile(() => this.update()),
+      vscode.commands.registerCommand("ios-vscode.connectionMenu", () => this.showMenu()),
+    )
+
+    this.update()
+    this.statusBarItem.show()
+  }
+
+  private update(): void {
+    const status = this.serverConnection.getStatus()
+    const name = this.serverProfileService.getActiveProfile()?.name || "iOS Server"
+
+    switch (status.state) {
+      case "connecting":
+        this.statusBarItem.text = `$(sync~spin) ${name}`
+        this.statusBarItem.backgroundColor = undefined
+        break
+      case "reconnecting":
+        this.statusBarItem.text = `$(sync~spin) ${name}: Reconnecting`
+        this.statusBarItem.backgroundColor = new vscode.ThemeColor("statusBarItem.warningBackground")
+        break
+      case "connected":
+        this.statusBarItem.text =
+          status.latency === null ? `$(server) ${name}` : `$(server) ${name} $(pulse) ${status.latency} ms`
+        this.statusBarItem.backgroundColor = status.healthy
+          ? undefined
+          : new vscode.ThemeColor("statusBarItem.warningBackground")
+        break
+      case "disconnected":
+        this.statusBarItem.text = `$(debug-disconnect) ${name}`
+        this.statusBarItem.backgroundColor = undefined
+        break
+    }
+
+    if (status.pendingCount > 0) {
+      this.statusBarItem.text += ` $(cloud-upload) ${status.pendingCount}`
+    }
+    this.statusBarItem.tooltip = this.describe(status, name)
+  }
+
+  private describe(status: ConnectionStatus, name: string): string {
+    const lines = [`${name}: ${status.state}`]
+    if (status.state === "connected") {
+      lines.push(`Latency: ${status.latency === null ? "unknown" : `${status.latency} ms`}`)
+      if (status.serverVersion) lines.push(`Server: ${status.serverVersion}`)
+      if (status.xcodeVersion) lines.push(`Xcode: ${status.xcodeVersion}`)
+      if (!status.healthy) lines.push("The server is responding slowly or not at all")
+    }
+    if (status.pendingCount > 0) {
+      lines.push(`${status.pendingCount} file change${status.pendingCount === 1 ? "" : "s"} waiting to sync`)
+    }
+    return lines.join("\n")
+  }
+
+  private async showMenu(): Promise<void> {
+    const state = this.serverConnection.getStatus().state
+    const items: Array<vscode.QuickPickItem & { command: string }> = []
+
+    if (state === "connected") {
+      items.push({ label: "$(info) Server Info", command: "info" })
+    }
+    items.push({ label: "$(refresh) Reconnect", command: "reconnect" })
+    if (state !== "disconnected") {
+      items.push({ label: "$(debug-disconnect) Disconnect", command: "disconnect" })
+    }
+    items.push(
+      { label: "$(server) Switch Server...", command: "switch" },
+      { label: "$(output) Show Logs", command: "logs" },
+    )
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: "iOS server connection" })
+    switch (selected?.command) {
+      case "info":
+        await this.showServerInfo()
+        break
+      case "reconnect":
+        await vscode.commands.executeCommand("ios-vscode.connectServer")
+        break
+      case "disconnect":
+        this.serverConnection.disconnect()
+        break
+      case "switch":
+        await vscode.commands.executeCommand("ios-vscode.switchServer")
+        break
+      case "logs":
+        this.serverConnection.showLog()
+        break
+    }
+  }
+
+  private async showServerInfo(): Promise<void> {
+    const profile = this.serverProfileService.getActiveProfile()
+
+    // Refresh latency so the numbers shown are current
+    await this.serverConnection.ping().catch(() => undefined)
+    const status = this.serverConnection.getStatus()
+
+    const detail = [
+      profile ? `Host: ${profile.username}@${profile.host}` : undefined,
+      `Server version: ${status.serverVersion || "unknown"}`,
+      `Xcode: ${status.xcodeVersion || "unknown"}`,
+      `Latency: ${status.latency === null ? "unknown" : `${status.latency} ms`}`,
+    ]
+      .filter((line) => line !== undefined)
+      .join("\n")
+
+    await vscode.window.showInformationMessage(profile?.name || "iOS Server", { modal: true, detail })
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose())
+    this.statusBarItem.dispose()
+  }
+}
@@ -1,5 +1,7 @@
 import * as vscode from "vscode"
 import type { ServerConnection } from "./serverConnection"
+import type { EventMap } from "../shared/protocol"
+import { toRemotePath } from "./workspaceMapping"
 
 export interface DebugSession {
   id: string
@@ -46,6 +48,17 @@ export class DebugService implements vscode.DebugAdapterDescriptorFactory {
     this.outputChannel = vscode.window.createOutputChannel("iOS Debug")
     this.debugConsole = vscode.window.createOutputChannel("iOS Debug Console")
     this.setupDebugAdapter()
+    this.serverConnection.onDebugOutput((data) => this.showDebugOutput(data))
+  }
+
+  private showDebugOutput(data: EventMap["debug_output"]): void {
+    if (!this.debugSessions.has(data.sessionId)) return
+
+    this.debugConsole.append(data.output)
+    // Bring the console forward when lldb reports an error
+    if (data.error) {
+      this.debugConsole.show(true)
+    }
   }
 
   private setupDebugAdapter(): void {
@@ -186,7 +199,8 @@ export class DebugService implements vscode.DebugAdapterDescriptorFactory {
   }
 
   private async addBreakpoint(vscodeBreakpoint: vscode.SourceBreakpoint): Promise<void> {
-    const filePath = vscode.workspace.asRelativePath(vscodeBreakpoint.location.uri)
+    const filePath =
+      toRemotePath(vscodeBreakpoint.location.uri) || vscode.workspace.asRelativePath(vscodeBreakpoint.location.uri)
     const line = vscodeBreakpoint.location.range.start.line + 1 // Convert to 1-based
 
     const breakpoint: Breakpoint = {
@@ -218,7 +232,8 @@ export class DebugService implements vscode.DebugAdapterDescriptorFactory {
   }
 
   private async removeBreakpoint(vscodeBreakpoint: vscode.SourceBreakpoint): Promise<void> {
-    const filePath = vscode.workspace.asRelativePath(vscodeBreakpoint.location.uri)
+    const filePath =
+      toRemotePath(vscodeBreakpoint.location.uri) || vscode.workspace.asRelativePath(vscodeBreakpoint.location.uri)
     const line = vscodeBreakpoint.location.range.start.line + 1
 
     const breakpointId = `${filePath}:${line}`
@@ -1,4 +1,5 @@
 import * as vscode from "vscode"
+import { ProgressReporter } from "./progressReporter"
 import type { ServerConnection } from "./serverConnection"
 
 export interface DeploymentTarget {
@@ -13,7 +14,8 @@ export interface Certificate {
   id: string
   name: string
   type: "development" | "distribution"
-  expirationDate: Date
+  // Unknown when the server could not read the certificate itself
+  expirationDate?: Date
   isValid: boolean
 }
 
@@ -85,7 +87,7 @@ export class DeploymentService {
 
     try {
       // Get simulators
-      const simulators = await this.serverConnection.sendMessage({
+      const { simulators } = await this.serverConnection.sendMessage({
         type: "get_simulators",
         data: {},
       })
@@ -101,7 +103,7 @@ export class DeploymentService {
       })
 
       // Get physical devices
-      const devices = await this.serverConnection.sendMessage({
+      const { devices } = await this.serverConnection.sendMessage({
         type: "get_physical_devices",
         data: {},
       })
@@ -128,18 +130,22 @@ export class DeploymentService {
     }
 
     try {
-      const certs = await this.serverConnection.sendMessage({
+      const { certificates } = await this.serverConnection.sendMessage({
         type: "get_certificates",
         data: {},
       })
 
-      this.certificates = certs.map((cert: any) => ({
-        id: cert.id,
-        name: cert.name,
-        type: cert.type,
-        expirationDate: new Date(cert.expirationDate),
-        isValid: new Date(cert.expirationDate) > new Date(),
-      }))
+      this.certificates = certificates.map((cert) => {
+        const expirationDate = cert.expirationDate ? new Date(cert.expirationDate) : undefined
+        return {
+          id: cert.id,
+          name: cert.name,
+          type: cert.type,
+          expirationDate,
+          // The server only lists identities that security considers valid
+          isValid: !expirationDate || expirationDate > new Date(),
+        }
+      })
 
       this.outputChannel.appendLine(`Found ${this.certificates.length} certificates`)
     } catch (error) {
@@ -153,7 +159,7 @@ export class DeploymentService {
     }
 
     try {
-      const profiles = await this.serverConnection.sendMessage({
+      const { profiles } = await this.serverConnection.sendMessage({
         type: "get_provisioning_profiles",
         data: {},
       })
@@ -194,33 +200,40 @@ export class DeploymentService {
         {
           location: vscode.ProgressLocation.Notification,
           title: `Deploying to ${target.name}...`,
-          cancellable: false,
+          cancellable: true,
         },
-        async (progress) => {
-          progress.report({ increment: 0, message: "Building project..." })
+        async (progress, token) => {
+          const reporter = new ProgressReporter(progress)
+          reporter.report(0, "Building project...")
 
           // Build project
-          await this.serverConnection.sendMessage({
-            type: "build_for_deployment",
-            data: {
-              configuration,
-              target: target.type,
-              targetId: target.id,
+          await this.serverConnection.sendMessage(
+            {
+              type: "build_for_deployment",
+              data: {
+                configuration,
+                target: target.type,
+                targetId: target.id,
+              },
             },
-          })
+            { token, onProgress: reporter.forRequest(0, 80) },
+          )
 
-          progress.report({ increment: 50, message: "Installing on device..." })
+          reporter.report(80, "Installing on device...")
 
           // Deploy to target
-          await this.serverConnection.sendMessage({
-            type: "deploy_to_target",
-            data: {
-              targetId: target.id,
-              configuration,
+          await this.serverConnection.sendMessage(
+            {
+              type: "deploy_to_target",
+              data: {
+                targetId: target.id,
+                configuration,
+              },
             },
-          })
+            { token, onProgress: reporter.forRequest(80, 100) },
+          )
 
-          progress.report({ increment: 100, message: "Deployment complete" })
+          reporter.report(100, "Deployment complete")
         },
       )
 
@@ -229,6 +242,10 @@ export class DeploymentService {
       this.outputChannel.appendLine(`Deployment successful: ${target.name}`)
     } catch (error) {
       target.status = "available"
+      if (error instanceof vscode.CancellationError) {
+        this.outputChannel.appendLine(`Deployment to ${target.name} cancelled`)
+        return
+      }
       vscode.window.showErrorMessage(`Deployment failed: ${error}`)
       this.outputChannel.appendLine(`Deployment failed: ${error}`)
     }
@@ -240,37 +257,48 @@ export class DeploymentService {
         {
           location: vscode.ProgressLocation.Notification,
           title: "Preparing App Store deployment...",
-          cancellable: false,
+          cancellable: true,
         },
-        async (progress) => {
-          progress.report({ increment: 0, message: "Validating configuration..." })
+        async (progress, token) => {
+          const reporter = new ProgressReporter(progress)
+          reporter.report(0, "Validating configuration...")
 
           // Validate App Store configuration
           await this.validateAppStoreConfiguration(configuration)
 
-          progress.report({ increment: 25, message: "Building for App Store..." })
+          reporter.report(5, "Building for App Store...")
 
           // Build for App Store
-          await this.serverConnection.sendMessage({
-            type: "build_for_appstore",
-            data: { configuration },
-          })
+          await this.serverConnection.sendMessage(
+            {
+              type: "build_for_appstore",
+              data: { configuration },
+            },
+            { token, onProgress: reporter.forRequest(5, 75) },
+          )
 
-          progress.report({ increment: 75, message: "Uploading to App Store Connect..." })
+          reporter.report(75, "Uploading to App Store Connect...")
 
           // Upload to App Store
-          await this.serverConnection.sendMessage({
-            type: "upload_to_appstore",
-            data: { configuration },
-          })
+          await this.serverConnection.sendMessage(
+            {
+              type: "upload_to_appstore",
+              data: { configuration },
+            },
+            { token, onProgress: reporter.forRequest(75, 100) },
+          )
 
-          progress.report({ increment: 100, message: "Upload complete" })
+          reporter.report(100, "Upload complete")
         },
       )
 
       vscode.window.showInformationMessage("App successfully uploaded to App Store Connect")
       this.outputChannel.appendLine("App Store deployment successful")
     } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        this.outputChannel.appendLine("App Store deployment cancelled")
+        return
+      }
       vscode.window.showErrorMessage(`App Store deployment failed: ${error}`)
       this.outputChannel.appendLine(`App Store deployment failed: ${error}`)
     }
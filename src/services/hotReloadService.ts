@@ -1,6 +1,7 @@
 import * as vscode from "vscode"
 import * as path from "path"
 import type { ServerConnection } from "./serverConnection"
+import { toRemotePath } from "./workspaceMapping"
 
 export interface HotReloadConfig {
   enabled: boolean
@@ -122,7 +123,7 @@ export class HotReloadService {
     }
 
     // Check if file should be excluded
-    const relativePath = vscode.workspace.asRelativePath(uri)
+    const relativePath = toRemotePath(uri) || vscode.workspace.asRelativePath(uri)
     if (this.shouldExcludeFile(relativePath)) {
       return
     }
@@ -161,7 +162,7 @@ export class HotReloadService {
     }
 
     // Fast SwiftUI preview update
-    const relativePath = vscode.workspace.asRelativePath(uri)
+    const relativePath = toRemotePath(uri) || vscode.workspace.asRelativePath(uri)
     this.outputChannel.appendLine(`SwiftUI Preview Update: ${relativePath}`)
 
     try {
@@ -188,13 +189,14 @@ export class HotReloadService {
   }
 
   private async handleAssetChange(uri: vscode.Uri): Promise<void> {
-    const relativePath = vscode.workspace.asRelativePath(uri)
+    const relativePath = toRemotePath(uri) || vscode.workspace.asRelativePath(uri)
     this.outputChannel.appendLine(`Asset changed: ${relativePath}`)
 
     try {
+      const content = await vscode.workspace.fs.readFile(uri)
       await this.serverConnection.sendMessage({
         type: "asset_update",
-        data: { path: relativePath },
+        data: { path: relativePath, content: Buffer.from(content).toString("base64") },
       })
     } catch (error) {
       console.error("Asset update failed:", error)
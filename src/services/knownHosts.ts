@@ -0,0 +1,80 @@
+import * as fs from "fs"
+import * as path from "path"
+import { createHash, createHmac } from "crypto"
+import { globToRegExp } from "../shared/glob"
+
+export type HostKeyStatus = "trusted" | "unknown" | "changed" | "revoked"
+
+// Checks a server's raw host key blob against an OpenSSH known_hosts file. Supports hashed
+// host names, wildcard and negated patterns, non-default ports and the @revoked marker.
+export function checkHostKey(knownHostsPath: string, host: string, port: number, key: Buffer): HostKeyStatus {
+  if (!fs.existsSync(knownHostsPath)) {
+    return "unknown"
+  }
+
+  const hostToken = formatHost(host, port)
+  const keyType = readKeyType(key)
+  let status: HostKeyStatus = "unknown"
+
+  for (const line of fs.readFileSync(knownHostsPath, "utf8").split("\n")) {
+    const fields = line.trim().split(/\s+/)
+    if (fields.length < 3 || fields[0].startsWith("#")) continue
+
+    const marker = fields[0].startsWith("@") ? fields.shift() : undefined
+    const [patterns, type, encodedKey] = fields
+    if (marker === "@cert-authority" || !encodedKey || !matchesHost(patterns, hostToken)) continue
+
+    const sameKey = Buffer.from(encodedKey, "base64").equals(key)
+    if (marker === "@revoked") {
+      if (sameKey) return "revoked"
+    } else if (sameKey) {
+      status = "trusted"
+    } else if (type === keyType && status === "unknown") {
+      status = "changed"
+    }
+  }
+
+  return status
+}
+
+export function addHostKey(knownHostsPath: string, host: string, port: number, key: Buffer): void {
+  fs.mkdirSync(path.dirname(knownHostsPath), { recursive: true, mode: 0o700 })
+
+  const existing = fs.existsSync(knownHostsPath) ? fs.readFileSync(knownHostsPath, "utf8") : ""
+  const separator = existing.length > 0 && !existing.endsWith("\n") ? "\n" : ""
+  const entry = `${formatHost(host, port)} ${readKeyType(key)} ${key.toString("base64")}\n`
+  fs.appendFileSync(knownHostsPath, separator + entry, { mode: 0o600 })
+}
+
+// Same format as `ssh-keygen -l`, e.g. SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8
+export function fingerprint(key: Buffer): string {
+  return `SHA256:${createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`
+}
+
+function formatHost(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`
+}
+
+function readKeyType(key: Buffer): string {
+  if (key.length < 4) return ""
+  const length = key.readUInt32BE(0)
+  return key.subarray(4, 4 + length).toString("ascii")
+}
+
+function matchesHost(patterns: string, hostToken: string): boolean {
+  // Hashed entries look like |1|<base64 salt>|<base64 HMAC-SHA1 of the host>
+  if (patterns.startsWith("|1|")) {
+    const [, , salt, hash] = patterns.split("|")
+    const digest = createHmac("sha1", Buffer.from(salt, "base64")).update(hostToken).digest("base64")
+    return digest === hash
+  }
+
+  let matched = false
+  for (const pattern of patterns.split(",")) {
+    const negated = pattern.startsWith("!")
+    if (!globToRegExp(negated ? pattern.slice(1) : pattern, { hostPattern: true }).test(hostToken)) continue
+    if (negated) return false
+    matched = true
+  }
+  return matched
+}
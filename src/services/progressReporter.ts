@@ -0,0 +1,30 @@
+import * as vscode from "vscode"
+import type { RequestProgress } from "../shared/protocol"
+
+// Drives a withProgress notification from the progress events of one or more server requests.
+// Each request covers a share of the bar, so a build followed by a deploy fills it once.
+export class ProgressReporter {
+  private reported = 0
+  private phase: string | undefined
+
+  constructor(private progress: vscode.Progress<{ message?: string; increment?: number }>) {}
+
+  // Moves the bar to percent (0-100 of the whole task) for steps that report nothing themselves
+  report(percent: number, message?: string): void {
+    const increment = Math.max(0, percent - this.reported)
+    this.reported += increment
+    this.progress.report({ message, increment })
+  }
+
+  // Callback for RequestOptions.onProgress that maps the request's 0-100 onto [start, end] of the bar
+  forRequest(start: number, end: number) {
+    return (update: RequestProgress): void => {
+      const target = update.percent === undefined ? this.reported : start + ((end - start) * update.percent) / 100
+      const phaseChanged = update.phase !== undefined && update.phase !== this.phase
+      if (target > this.reported || phaseChanged) {
+        this.phase = update.phase ?? this.phase
+        this.report(target, this.phase && `${this.phase}...`)
+      }
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import * as vscode from "vscode"
+import { createHash } from "crypto"
+import type { FileError, ManifestEntry, SyncedFile } from "../shared/protocol"
+import { matchesGlob } from "../shared/glob"
+import type { ServerConnection } from "./serverConnection"
+import { SyncFilter } from "./syncFilter"
+import {
+  fromRemotePath,
+  getFolderRelativePath,
+  getSyncRoot,
+  getSyncRoots,
+  joinRemotePath,
+  toRemotePath,
+  type SyncRoot,
+} from "./workspaceMapping"
+
+// Files larger than this are uploaded in chunks of this size
+const CHUNK_SIZE = 256 * 1024
+const MAX_BATCH_BYTES = 512 * 1024
+const MAX_BATCH_FILES = 200
+const DELETE_BATCH_SIZE = 500
+
+interface LocalFile extends ManifestEntry {
+  uri: vscode.Uri
+  mtime: number
+}
+
+export interface ProjectSyncResult {
+  uploaded: number
+  deleted: number
+  unchanged: number
+  failed: FileError[]
+}
+
+// Brings the server's copy of the project up to date. Local and remote manifests are compared
+// by content hash so only changed files are sent, and files removed locally are deleted remotely.
+export class ProjectSync {
+  // Local hashes, reused while a file's size and modification time are unchanged
+  private hashes: Map<string, { size: number; mtime: number; hash: string }> = new Map()
+  // One filter per workspace folder, keyed by folder URI
+  private filters: Map<string, Promise<SyncFilter>> = new Map()
+  // Hash of each file as last sent to or received from the server
+  private syncedHashes: Map<string, string> = new Map()
+  private localFiles: LocalFile[] = []
+
+  constructor(
+    private connection: ServerConnection,
+    private log: (message: string, detail?: unknown) => void,
+  ) {}
+
+  async sync(): Promise<ProjectSyncResult> {
+    return vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "Syncing project to server" },
+      (progress) => this.run(progress),
+    )
+  }
+
+  // Called when the sync settings, an ignore file or the workspace folders change
+  invalidateFilter(): void {
+    this.filters.clear()
+  }
+
+  async isIncluded(uri: vscode.Uri): Promise<boolean> {
+    const root = getSyncRoot(uri)
+    if (!root) return false
+    return (await this.getFilter(root)).matches(getFolderRelativePath(root, uri))
+  }
+
+  // Reads a workspace file for sync_file or sync_project. Returns null for files outside the workspace.
+  async readFile(uri: vscode.Uri, lastModified = Date.now()): Promise<SyncedFile | null> {
+    const remotePath = toRemotePath(uri)
+    if (!remotePath) return null
+    const content = await vscode.workspace.fs.readFile(uri)
+    return this.encodeFile(remotePath, content, lastModified)
+  }
+
+  recordSynced(filePath: string, hash: string | null): void {
+    if (hash === null) {
+      this.syncedHashes.delete(filePath)
+    } else {
+      this.syncedHashes.set(filePath, hash)
+    }
+  }
+
+  getSyncedHash(filePath: string): string | undefined {
+    return this.syncedHashes.get(filePath)
+  }
+
+  // True when the server already has exactly this content
+  hasSynced(file: SyncedFile): boolean {
+    return this.syncedHashes.get(file.path) === hashContent(decodeSyncedFile(file))
+  }
+
+  // Hashes of local files matching the given globs, as of the last project sync
+  getLocalHashes(patterns: string[]): Record<string, string> {
+    const hashes: Record<string, string> = {}
+    for (const file of this.localFiles) {
+      if (matchesGlob(file.path, patterns)) hashes[file.path] = file.hash
+    }
+    return hashes
+  }
+
+  private encodeFile(filePath: string, content: Uint8Array, lastModified: number): SyncedFile {
+    const buffer = Buffer.from(content)
+    const text = buffer.toString("utf8")
+    if (!buffer.includes(0) && Buffer.from(text, "utf8").equals(buffer)) {
+      return { path: filePath, content: text, lastModified }
+    }
+
+    return { path: filePath, content: buffer.toString("base64"), encoding: "base64", lastModified }
+  }
+
+  private getFilter(root: SyncRoot): Promise<SyncFilter> {
+    const key = root.folder.uri.toString()
+    let filter = this.filters.get(key)
+    if (!filter) {
+      filter = SyncFilter.load(root)
+      this.filters.set(key, filter)
+      // Retry on the next call rather than caching a failed load
+      filter.catch(() => this.filters.delete(key))
+    }
+    return filter
+  }
+
+  private async run(progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<ProjectSyncResult> {
+    progress.report({ message: "Comparing files..." })
+    const roots = getSyncRoots()
+    const filters: Map<SyncRoot, SyncFilter> = new Map()
+    const localFiles: LocalFile[] = []
+    for (const root of roots) {
+      const filter = await this.getFilter(root)
+      filters.set(root, filter)
+      localFiles.push(...(await this.scanLocalFiles(root, await filter.findFiles(root))))
+    }
+    this.localFiles = localFiles
+
+    // A remote file is ours to delete if its folder's filter would sync it
+    const isSyncedRemotePath = (remotePath: string) => {
+      const local = fromRemotePath(remotePath, roots)
+      return local !== undefined && filters.get(local.root)!.matches(local.relativePath)
+    }
+
+    // Files the server generates are pulled from it (see RemoteFileSync) rather than overwritten or deleted
+    const pullPatterns = getPullPatterns()
+    const isServerOutput = (filePath: string) => matchesGlob(filePath, pullPatterns)
+
+    // Remote files the filter excludes, such as build products, are left alone
+    const remoteFiles = (await this.connection.sendMessage({ type: "get_manifest", data: {} })).files
+
+    const remoteByPath = new Map(remoteFiles.map((file) => [file.path, file]))
+    const localPaths = new Set(localFiles.map((file) => file.path))
+
+    const toUpload = localFiles.filter((file) => {
+      const remote = remoteByPath.get(file.path)
+      if (remote && remote.size === file.size && remote.hash === file.hash) {
+        this.syncedHashes.set(file.path, file.hash)
+        return false
+      }
+      return !(remote && isServerOutput(file.path))
+    })
+    const toDelete = remoteFiles
+      .map((file) => file.path)
+      .filter(
+        (remotePath) => !localPaths.has(remotePath) && isSyncedRemotePath(remotePath) && !isServerOutput(remotePath),
+      )
+
+    const result: ProjectSyncResult = {
+      uploaded: 0,
+      deleted: 0,
+      unchanged: localFiles.length - toUpload.length,
+      failed: [],
+    }
+    this.log(`Project sync: ${toUpload.length} to upload, ${toDelete.length} to delete, ${result.unchanged} unchanged`)
+
+    const totalBytes = toUpload.reduce((sum, file) => sum + file.size, 0) + toDelete.length
+    const advance = (bytes: number, message: string) => {
+      progress.report({ message, increment: totalBytes > 0 ? (bytes / totalBytes) * 100 : 0 })
+    }
+
+    let batch: SyncedFile[] = []
+    let batchBytes = 0
+    const flushBatch = async () => {
+      if (batch.length === 0) return
+      const response = await this.connection.sendMessage({ type: "sync_project", data: { files: batch } })
+      result.uploaded += response.syncedCount
+      result.failed.push(...(response.failed || []))
+
+      const rejected = new Set((response.failed || []).map((file) => file.path))
+      for (const file of batch) {
+        if (!rejected.has(file.path)) this.syncedHashes.set(file.path, hashContent(decodeSyncedFile(file)))
+      }
+      advance(batchBytes, `${result.uploaded} of ${toUpload.length} files uploaded`)
+      batch = []
+      batchBytes = 0
+    }
+
+    for (const file of toUpload) {
+      const content = await vscode.workspace.fs.readFile(file.uri)
+
+      if (content.length > CHUNK_SIZE) {
+        await this.uploadInChunks(file.path, content)
+        this.syncedHashes.set(file.path, file.hash)
+        result.uploaded++
+        advance(content.length, `${result.uploaded} of ${toUpload.length} files uploaded`)
+        continue
+      }
+
+      if (batch.length >= MAX_BATCH_FILES || (batch.length > 0 && batchBytes + content.length > MAX_BATCH_BYTES)) {
+        await flushBatch()
+      }
+      batch.push(this.encodeFile(file.path, content, file.mtime))
+      batchBytes += content.length
+    }
+    await flushBatch()
+
+    for (let index = 0; index < toDelete.length; index += DELETE_BATCH_SIZE) {
+      const paths = toDelete.slice(index, index + DELETE_BATCH_SIZE)
+      const response = await this.connection.sendMessage({ type: "delete_files", data: { paths } })
+      result.deleted += response.deletedCount
+      result.failed.push(...response.failed)
+      paths.forEach((remotePath) => this.syncedHashes.delete(remotePath))
+      advance(paths.length, `${result.deleted} of ${toDelete.length} files deleted`)
+    }
+
+    return result
+  }
+
+  private async uploadInChunks(filePath: string, content: Uint8Array): Promise<void> {
+    const buffer = Buffer.from(content)
+
+    for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+      const chunk = buffer.subarray(offset, offset + CHUNK_SIZE)
+      const final = offset + chunk.length >= buffer.length
+      await this.connection.sendMessage(
+        { type: "sync_file_chunk", data: { path: filePath, offset, final } },
+        { payload: chunk },
+      )
+    }
+  }
+
+  private async scanLocalFiles(root: SyncRoot, uris: vscode.Uri[]): Promise<LocalFile[]> {
+    const files: LocalFile[] = []
+
+    for (const uri of uris) {
+      const stats = await vscode.workspace.fs.stat(uri)
+      const key = uri.toString()
+
+      let cached = this.hashes.get(key)
+      if (!cached || cached.size !== stats.size || cached.mtime !== stats.mtime) {
+        const content = await vscode.workspace.fs.readFile(uri)
+        cached = { size: content.length, mtime: stats.mtime, hash: hashContent(content) }
+        this.hashes.set(key, cached)
+      }
+
+      files.push({
+        uri,
+        path: joinRemotePath(root, getFolderRelativePath(root, uri)),
+        size: cached.size,
+        hash: cached.hash,
+        mtime: stats.mtime,
+      })
+    }
+
+    return files
+  }
+}
+
+export function getPullPatterns(): string[] {
+  return vscode.workspace.getConfiguration("ios-vscode.sync").get<string[]>("pullPatterns") || []
+}
+
+export function hashContent(content: Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex")
+}
+
+export function decodeSyncedFile(file: SyncedFile): Buffer {
+  return Buffer.from(file.content, file.encoding === "base64" ? "base64" : "utf8")
+}
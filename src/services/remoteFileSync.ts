@@ -0,0 +1,107 @@
+import * as vscode from "vscode"
+import { hashContent, type ProjectSync } from "./projectSync"
+import type { RemoteFileChange } from "./serverConnection"
+import { fromRemotePath } from "./workspaceMapping"
+
+const REMOTE_SCHEME = "ios-vscode-server"
+
+// Writes files the server pushes (generated sources, Package.resolved, build logs) into the
+// workspace. A file edited locally since it was last synced is a conflict: the user picks a
+// side, optionally after comparing both versions in a diff view.
+export class RemoteFileSync implements vscode.TextDocumentContentProvider {
+  // Server versions shown in diff views, keyed by project-relative path
+  private remoteContents: Map<string, Buffer> = new Map()
+  private contentEmitter = new vscode.EventEmitter<vscode.Uri>()
+  private registration: vscode.Disposable
+
+  readonly onDidChange = this.contentEmitter.event
+
+  constructor(
+    private projectSync: ProjectSync,
+    private pushLocalFile: (uri: vscode.Uri) => Promise<void>,
+    private log: (message: string, detail?: unknown) => void,
+  ) {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(REMOTE_SCHEME, this)
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.remoteContents.get(uri.path.replace(/^\//, ""))?.toString("utf8") || ""
+  }
+
+  async apply(change: RemoteFileChange): Promise<void> {
+    // Only ever write inside the workspace
+    const local = fromRemotePath(change.path)
+    const segments = local?.relativePath.split("/") || []
+    if (!local || change.path.startsWith("/") || segments.some((segment) => segment === ".." || segment === "")) {
+      this.log(`Ignoring server change to ${change.path}: not inside a workspace folder`)
+      return
+    }
+
+    const uri = vscode.Uri.joinPath(local.root.folder.uri, ...segments)
+    const localContent = await this.readLocal(uri)
+    const localHash = localContent && hashContent(localContent)
+    const baseHash = this.projectSync.getSyncedHash(change.path)
+    const locallyModified = localContent !== null && localHash !== baseHash
+
+    if (change.content === null) {
+      this.projectSync.recordSynced(change.path, null)
+      if (localContent && !locallyModified) {
+        await vscode.workspace.fs.delete(uri)
+        this.log(`Deleted ${change.path}, removed on the server`)
+      }
+      return
+    }
+
+    const remote = change.content
+    const remoteHash = hashContent(remote)
+
+    if (localHash === remoteHash) {
+      this.projectSync.recordSynced(change.path, remoteHash)
+    } else if (!locallyModified) {
+      await this.writeLocal(uri, change.path, remote)
+    } else {
+      await this.resolveConflict(uri, change.path, remote)
+    }
+  }
+
+  private async resolveConflict(uri: vscode.Uri, filePath: string, remote: Buffer): Promise<void> {
+    this.log(`Conflict: ${filePath} changed on the server and locally`)
+    const message = `${filePath} changed on the server and has local changes.`
+    const actions = ["Compare", "Use Server Version", "Keep Local Version"]
+
+    let choice = await vscode.window.showWarningMessage(message, ...actions)
+    if (choice === "Compare") {
+      this.remoteContents.set(filePath, remote)
+      const remoteUri = vscode.Uri.from({ scheme: REMOTE_SCHEME, path: `/${filePath}` })
+      this.contentEmitter.fire(remoteUri)
+      await vscode.commands.executeCommand("vscode.diff", remoteUri, uri, `${filePath} (Server ↔ Local)`)
+      choice = await vscode.window.showWarningMessage(message, ...actions.slice(1))
+    }
+
+    if (choice === "Use Server Version") {
+      await this.writeLocal(uri, filePath, remote)
+    } else if (choice === "Keep Local Version") {
+      await this.pushLocalFile(uri)
+    }
+  }
+
+  private async writeLocal(uri: vscode.Uri, filePath: string, content: Buffer): Promise<void> {
+    // Record first so the file watcher does not send the same content back
+    this.projectSync.recordSynced(filePath, hashContent(content))
+    await vscode.workspace.fs.writeFile(uri, content)
+    this.log(`Updated ${filePath} from the server`)
+  }
+
+  private async readLocal(uri: vscode.Uri): Promise<Uint8Array | null> {
+    try {
+      return await vscode.workspace.fs.readFile(uri)
+    } catch {
+      return null
+    }
+  }
+
+  dispose(): void {
+    this.registration.dispose()
+    this.contentEmitter.dispose()
+  }
+}
@@ -1,17 +1,116 @@
 import * as vscode from "vscode"
-import { Client } from "ssh2"
-import * as WebSocket from "ws"
+import * as fs from "fs"
+import * as net from "net"
+import * as os from "os"
+import * as path from "path"
+import * as tls from "tls"
+import { Client, utils as sshUtils } from "ssh2"
+import WebSocket from "ws"
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  encodeBinaryMessage,
+  negotiateVersion,
+  parseBinaryServerMessage,
+  type EventMap,
+  parseServerMessage,
+  type FileError,
+  type JobInfo,
+  type OperationInfo,
+  type PathErrorCode,
+  type ProtocolMessage,
+  type RequestData,
+  type RequestProgress,
+  type RequestType,
+  type ResponseData,
+  type SimulatorInput,
+} from "../shared/protocol"
+import { addHostKey, checkHostKey, fingerprint } from "./knownHosts"
+import { ProjectSync, getPullPatterns, hashContent, decodeSyncedFile } from "./projectSync"
+import { RemoteFileSync } from "./remoteFileSync"
+import { IGNORE_FILES, getRemoteExcludePatterns } from "./syncFilter"
+import { getSyncRoots, toRemotePath } from "./workspaceMapping"
+import { ServerProfileService, type ServerProfile, type SshAuthMethod } from "./serverProfileService"
+
+const SSH_PORT = 22
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 60000
+const PING_INTERVAL = 15000
+// Round trips slower than this are shown as degraded
+const SLOW_LATENCY = 500
+const DEFAULT_REQUEST_TIMEOUT = 30000
+// Requests that finish much sooner or later than the default
+const REQUEST_TIMEOUTS: Partial<Record<RequestType, number>> = {
+  request_frame: 5000,
+  build_project: 30 * 60 * 1000,
+  run_project: 30 * 60 * 1000,
+  incremental_build: 30 * 60 * 1000,
+  swiftui_preview_update: 30 * 60 * 1000,
+  asset_update: 30 * 60 * 1000,
+  start_debug_session: 30 * 60 * 1000,
+  build_for_deployment: 30 * 60 * 1000,
+  deploy_to_target: 10 * 60 * 1000,
+  build_for_appstore: 60 * 60 * 1000,
+  upload_to_appstore: 60 * 60 * 1000,
+  run_operation: 5 * 60 * 1000,
+  run_shell: 5 * 60 * 1000,
+}
 
-export interface ServerMessage {
-  type: string
-  data: any
-  id?: string
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting"
+
+export interface ConnectionStatus {
+  state: ConnectionState
+  // Round-trip time of the last ping in milliseconds, null when unknown or the ping failed
+  latency: number | null
+  healthy: boolean
+  serverVersion?: string
+  xcodeVersion?: string | null
+  // File changes waiting to be sent to the server
+  pendingCount: number
 }
 
-export interface ProjectFile {
+// A simulator frame pushed by the server, with the PNG from the binary frame as image
+export type SimulatorFrame = EventMap["simulator_frame"] & { image?: Uint8Array }
+
+// A file the server created, changed or deleted. content is null for deletions.
+export interface RemoteFileChange {
   path: string
-  content: string
-  lastModified: number
+  content: Buffer | null
+}
+
+export interface RequestOptions {
+  // Milliseconds to wait for the response, 0 for no limit. Defaults to a per-request-type timeout.
+  timeout?: number
+  // Cancelling rejects with a vscode.CancellationError and tells the server to stop the request
+  token?: vscode.CancellationToken
+  // Sent as a binary frame; only use one with servers that support them
+  payload?: Uint8Array
+  // Called for each progress event the server sends before the response; see ProgressReporter
+  onProgress?: (progress: RequestProgress) => void
+}
+
+interface PendingRequest {
+  resolve: Function
+  reject: Function
+  onProgress?: (progress: RequestProgress) => void
+  timeout: NodeJS.Timeout | null
+  cancellation: vscode.Disposable | null
+}
+
+// File operations that are safe to replay after reconnecting. Only the latest one per path is kept.
+type QueuedRequest =
+  { type: "sync_file"; data: RequestData<"sync_file"> } | { type: "delete_file"; data: RequestData<"delete_file"> }
+
+// Error reported by the server for a request. File operations carry a code and the offending path.
+export class ServerError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: PathErrorCode,
+    public readonly path?: string,
+  ) {
+    super(message)
+    this.name = "ServerError"
+  }
 }
 
 export class ServerConnection {
@@ -19,137 +118,541 @@ export class ServerConnection {
   private websocket: WebSocket | null = null
   private connected = false
   private reconnectAttempts = 0
-  private maxReconnectAttempts = 5
-  private reconnectInterval = 5000
-  private messageHandlers: Map<string, (data: any) => void> = new Map()
-  private pendingRequests: Map<string, { resolve: Function; reject: Function; timeout: NodeJS.Timeout }> = new Map()
+  private maxReconnectAttempts = 10
+  private reconnectTimer: NodeJS.Timeout | null = null
+  // Lets the server reattach a reconnecting client to its existing session
+  private resumeToken: string | null = null
+  private messageHandlers: Map<string, (data: any, payload?: Buffer) => void> = new Map()
+  private pendingRequests: Map<string, PendingRequest> = new Map()
   private fileWatcher: vscode.FileSystemWatcher | null = null
+  private syncListeners: vscode.Disposable[] = []
+  private jumpClient: Client | null = null
+  private sshPasswordAttempt: { secretKey: string; password: string } | null = null
+  private tunnelServer: net.Server | null = null
+  private localPort = 0
+  private profile: ServerProfile | null = null
   private serverHost = ""
   private serverPort = 0
+  private serverPath = ""
   private username = ""
-
-  constructor() {
+  private serverVersion = ""
+  private status: ConnectionStatus = { state: "disconnected", latency: null, healthy: true, pendingCount: 0 }
+  private offlineQueue: Map<string, QueuedRequest> = new Map()
+  private flushingQueue = false
+  private statusEmitter = new vscode.EventEmitter<ConnectionStatus>()
+  private connectionStateEmitter = new vscode.EventEmitter<ConnectionState>()
+  private simulatorFrameEmitter = new vscode.EventEmitter<SimulatorFrame>()
+  private buildOutputEmitter = new vscode.EventEmitter<EventMap["build_output"]>()
+  private debugOutputEmitter = new vscode.EventEmitter<EventMap["debug_output"]>()
+  private fileChangedEmitter = new vscode.EventEmitter<RemoteFileChange>()
+  private jobsEmitter = new vscode.EventEmitter<JobInfo[]>()
+  private buildOutputChannel: vscode.OutputChannel | null = null
+  private pingTimer: NodeJS.Timeout | null = null
+  private outputChannel = vscode.window.createOutputChannel("iOS Server")
+  private projectSync = new ProjectSync(this, (message, detail) => this.log(message, detail))
+  private remoteFileSync = new RemoteFileSync(
+    this.projectSync,
+    (uri) => this.syncFileToServer(uri),
+    (message, detail) => this.log(message, detail),
+  )
+
+  readonly onDidChangeStatus = this.statusEmitter.event
+  // Fired only when the state changes, not for latency or queue updates
+  readonly onConnectionStateChanged = this.connectionStateEmitter.event
+  readonly onSimulatorFrame = this.simulatorFrameEmitter.event
+  readonly onBuildOutput = this.buildOutputEmitter.event
+  // lldb output of the debug sessions started with start_debug_session
+  readonly onDebugOutput = this.debugOutputEmitter.event
+  readonly onFileChanged = this.fileChangedEmitter.event
+  // The server's job queue, whenever a job is queued, starts or finishes
+  readonly onJobsChanged = this.jobsEmitter.event
+
+  constructor(private secrets: vscode.SecretStorage) {
     this.setupMessageHandlers()
+
+    // Generated files, Package.resolved and build logs pushed by the server
+    this.onFileChanged((change) => {
+      this.remoteFileSync.apply(change).catch((error) => {
+        this.log(`Failed to apply server change to ${change.path}:`, error)
+      })
+    })
+    this.onBuildOutput((data) => this.showBuildOutput(data))
   }
 
-  async connect(host: string, port: number, username: string): Promise<void> {
-    this.serverHost = host
-    this.serverPort = port
-    this.username = username
+  async connect(profile: ServerProfile): Promise<void> {
+    if (this.profile?.name !== profile.name) {
+      // Neither the session nor queued changes carry over to a different server
+      this.resumeToken = null
+      this.offlineQueue.clear()
+      this.updateStatus({ pendingCount: 0 })
+    }
+    if (this.status.state !== "reconnecting") {
+      this.updateStatus({ state: "connecting", latency: null, healthy: true })
+    }
+
+    try {
+      await this.establishConnection(profile)
+    } catch (error) {
+      if (this.status.state === "connecting") {
+        this.updateStatus({ state: "disconnected", latency: null })
+      }
+      throw error
+    }
+  }
+
+  private async establishConnection(profile: ServerProfile): Promise<void> {
+    const config = vscode.workspace.getConfiguration("ios-vscode")
+    this.profile = profile
+    this.serverHost = profile.host
+    this.serverPort = profile.serverPort || config.get<number>("serverPort") || 8080
+    this.serverPath = profile.serverPath || config.get<string>("serverPath") || "/ios-vscode"
+    this.username = profile.username
+    this.log(`Connecting to ${profile.username}@${profile.host} (${profile.name})`)
+
+    if (profile.connection === "direct") {
+      await this.connectDirect(profile)
+      return
+    }
+
+    const sshPort = profile.sshPort || SSH_PORT
+    const proxyJump = profile.proxyJump || config.get<string>("sshProxyJump")
+    const sock = proxyJump ? await this.connectJumpHost(proxyJump, profile.host, sshPort, profile.username) : undefined
+    const sshConfig = await this.getSshConfig(profile.host, sshPort, profile.username, profile)
 
     return new Promise((resolve, reject) => {
-      this.sshClient = new Client()
+      const sshClient = new Client()
+      this.sshClient = sshClient
 
-      this.sshClient.on("ready", async () => {
-        console.log("SSH connection established")
+      sshClient.on("ready", async () => {
+        this.log("SSH connection established")
+        await this.storeSshPassword()
 
         try {
           // Setup SSH tunnel for WebSocket connection
           await this.setupSSHTunnel()
 
           // Connect WebSocket through tunnel
-          await this.connectWebSocket()
+          await this.connectWebSocket(`ws://127.0.0.1:${this.localPort}${this.serverPath}`)
 
-          // Initialize project synchronization
-          await this.initializeProjectSync()
-
-          this.connected = true
-          this.reconnectAttempts = 0
-          vscode.commands.executeCommand("setContext", "ios-vscode.connected", true)
-          vscode.window.showInformationMessage("Connected to macOS server")
+          await this.startSession()
           resolve()
         } catch (error) {
-          console.error("Post-connection setup failed:", error)
+          this.log("Post-connection setup failed:", error)
           reject(error)
         }
       })
 
-      this.sshClient.on("error", (err) => {
-        console.error("SSH connection error:", err)
-        vscode.window.showErrorMessage(`Connection failed: ${err.message}`)
-        this.handleConnectionError()
+      sshClient.on("error", async (err: Error & { level?: string }) => {
+        this.log("SSH connection error:", err)
+        if (err.level === "client-authentication") {
+          await this.forgetSshPassword()
+        }
+        if (this.status.state !== "reconnecting") {
+          vscode.window.showErrorMessage(`Connection failed: ${err.message}`)
+        }
         reject(err)
       })
 
-      this.sshClient.on("close", () => {
-        console.log("SSH connection closed")
+      sshClient.on("close", () => {
+        // Ignore clients that were already replaced or torn down
+        if (this.sshClient !== sshClient) return
+
+        this.log("SSH connection closed")
+        this.closeTunnel()
+        this.closeJumpHost()
         this.handleDisconnection()
       })
 
-      // Prompt for password
-      vscode.window
-        .showInputBox({
-          prompt: "Enter SSH password",
-          password: true,
-        })
-        .then((password) => {
-          if (password) {
-            this.sshClient!.connect({
-              host,
-              port: 22, // SSH port
-              username,
-              password,
-              keepaliveInterval: 30000,
-              keepaliveCountMax: 3,
-            })
-          } else {
-            reject(new Error("Password required"))
+      sshClient.connect({ ...sshConfig, sock })
+    })
+  }
+
+  // Talks wss:// straight to the server, trusting its certificate only if it matches the pinned fingerprint
+  private async connectDirect(profile: ServerProfile): Promise<void> {
+    const host = profile.host.includes(":") ? `[${profile.host}]` : profile.host
+    try {
+      const certificate = await this.connectWebSocket(`wss://${host}:${this.serverPort}${this.serverPath}`)
+      if (!(await this.verifyCertificate(profile, certificate))) {
+        // Retrying cannot fix an untrusted certificate
+        throw Object.assign(new Error(`The TLS certificate of ${profile.host} is not trusted`), { level: "handshake" })
+      }
+      await this.startSession()
+    } catch (error) {
+      this.log("Direct connection failed:", error)
+      this.closeTransport()
+      if (this.status.state !== "reconnecting") {
+        vscode.window.showErrorMessage(`Connection failed: ${(error as Error).message}`)
+      }
+      throw error
+    }
+  }
+
+  // Runs once the WebSocket is open, over either transport
+  private async startSession(): Promise<void> {
+    // Negotiate protocol version, then resume the previous session or authenticate
+    await this.negotiateProtocol()
+    if (!(await this.resumeSession())) {
+      await this.authenticate()
+    }
+
+    // Replay changes made while disconnected
+    await this.flushQueue()
+
+    // Initialize project synchronization
+    await this.initializeProjectSync()
+
+    this.connected = true
+    this.reconnectAttempts = 0
+    vscode.commands.executeCommand("setContext", "ios-vscode.connected", true)
+    this.updateStatus({ state: "connected", serverVersion: this.serverVersion })
+    this.startPing()
+    vscode.window.showInformationMessage("Connected to macOS server")
+  }
+
+  // Pins the certificate on first use, like SSH host keys. Nothing has been sent over the socket yet.
+  private async verifyCertificate(profile: ServerProfile, certificate: tls.PeerCertificate | null): Promise<boolean> {
+    const actual = certificate?.fingerprint256
+    if (!actual) {
+      return false
+    }
+
+    if (profile.tlsFingerprint) {
+      if (normalizeFingerprint(profile.tlsFingerprint) === normalizeFingerprint(actual)) {
+        return true
+      }
+      vscode.window.showErrorMessage(
+        `The TLS certificate of ${profile.host} has changed (SHA-256 ${actual}). Refusing to connect. ` +
+          `If this is expected, update tlsFingerprint in the ${profile.name} server profile.`,
+        { modal: true },
+      )
+      return false
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `The TLS certificate of ${profile.host} is not pinned yet. Its SHA-256 fingerprint is ${actual}.`,
+      {
+        modal: true,
+        detail:
+          "Compare it with the fingerprint the server prints at startup. Trusting it saves it in the server profile.",
+      },
+      "Trust and Connect",
+    )
+    if (choice !== "Trust and Connect") {
+      return false
+    }
+
+    profile.tlsFingerprint = actual
+    await ServerProfileService.updateProfile(profile.name, { tlsFingerprint: actual })
+    return true
+  }
+
+  // Connects to the ProxyJump host, given as [user@]host[:port], and opens a channel to the target's SSH port
+  private async connectJumpHost(
+    spec: string,
+    targetHost: string,
+    targetPort: number,
+    defaultUsername: string,
+  ): Promise<any> {
+    const match = spec.trim().match(/^(?:([^@]+)@)?([^:@]+)(?::(\d+))?$/)
+    if (!match) {
+      throw new Error(`Invalid ProxyJump setting: ${spec}`)
+    }
+
+    const [, jumpUsername = defaultUsername, jumpHost, jumpPort = String(SSH_PORT)] = match
+    const sshConfig = await this.getSshConfig(jumpHost, Number(jumpPort), jumpUsername)
+    this.closeJumpHost()
+
+    return new Promise((resolve, reject) => {
+      const jumpClient = new Client()
+      this.jumpClient = jumpClient
+
+      jumpClient.on("ready", async () => {
+        this.log(`SSH connection to jump host ${jumpHost} established`)
+        await this.storeSshPassword()
+
+        jumpClient.forwardOut("127.0.0.1", 0, targetHost, targetPort, (err: Error | undefined, stream: any) => {
+          if (err) {
+            reject(new Error(`Jump host ${jumpHost} could not reach ${targetHost}: ${err.message}`))
+            return
           }
+          resolve(stream)
         })
+      })
+
+      jumpClient.on("error", async (err: Error & { level?: string }) => {
+        this.log("Jump host connection error:", err)
+        if (err.level === "client-authentication") {
+          await this.forgetSshPassword()
+        }
+        reject(new Error(`Jump host ${jumpHost}: ${err.message}`))
+      })
+
+      jumpClient.connect(sshConfig)
     })
   }
 
+  private closeJumpHost(): void {
+    if (this.jumpClient) {
+      this.jumpClient.end()
+      this.jumpClient = null
+    }
+  }
+
+  private async getSshConfig(
+    host: string,
+    port: number,
+    username: string,
+    options: { authMethod?: SshAuthMethod; privateKeyPath?: string } = {},
+  ): Promise<Record<string, any>> {
+    const config = vscode.workspace.getConfiguration("ios-vscode")
+    const authMethod = options.authMethod || "auto"
+    const keyPath = expandHome(options.privateKeyPath || config.get<string>("sshPrivateKeyPath") || "")
+    const agent = config.get<string>("sshAgent") || process.env.SSH_AUTH_SOCK
+    if (authMethod === "key" && !keyPath) {
+      throw new Error(`No private key configured for ${username}@${host}`)
+    }
+    if (authMethod === "agent" && !agent) {
+      throw new Error("No ssh-agent socket configured and SSH_AUTH_SOCK is not set")
+    }
+
+    const useKey = authMethod === "auto" || authMethod === "key"
+    const useAgent = authMethod === "auto" || authMethod === "agent"
+    const usePassword = authMethod === "auto" || authMethod === "password"
+    const privateKey = useKey && keyPath ? await this.loadPrivateKey(keyPath) : undefined
+
+    // Try the key, then the agent, and only ask for a password when both are unavailable or rejected
+    const attempts: Array<() => Promise<Record<string, any> | false>> = []
+    if (privateKey) {
+      attempts.push(async () => ({
+        type: "publickey",
+        username,
+        key: privateKey.data,
+        passphrase: privateKey.passphrase,
+      }))
+    }
+    if (useAgent && agent) {
+      attempts.push(async () => ({ type: "agent", username, agent }))
+    }
+    if (usePassword) {
+      attempts.push(async () => {
+        const password = await this.getSshPassword(host, username)
+        return password ? { type: "password", username, password } : false
+      })
+    }
+
+    const authHandler = (methodsLeft: string[] | null, _partialSuccess: boolean, next: (auth: any) => void) => {
+      const tryNext = async (): Promise<Record<string, any> | false> => {
+        while (attempts.length > 0) {
+          const auth = await attempts.shift()!()
+          const method = auth && (auth.type === "agent" ? "publickey" : auth.type)
+          if (!auth || !methodsLeft || methodsLeft.includes(method)) {
+            return auth
+          }
+        }
+        return false
+      }
+      tryNext().then(next, () => next(false))
+    }
+
+    return {
+      host,
+      port,
+      username,
+      authHandler,
+      hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
+        this.verifyHostKey(host, port, key).then(verify, () => verify(false))
+      },
+      keepaliveInterval: 30000,
+      keepaliveCountMax: 3,
+    }
+  }
+
+  private async verifyHostKey(host: string, port: number, key: Buffer): Promise<boolean> {
+    const knownHostsPath = path.join(os.homedir(), ".ssh", "known_hosts")
+    const status = checkHostKey(knownHostsPath, host, port, key)
+
+    if (status === "trusted") {
+      return true
+    }
+    if (status === "changed" || status === "revoked") {
+      vscode.window.showErrorMessage(
+        `The host key for ${host} ${status === "changed" ? "has changed" : "has been revoked"} ` +
+          `(${fingerprint(key)}). Refusing to connect. If this is expected, update ${knownHostsPath}.`,
+        { modal: true },
+      )
+      return false
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `The authenticity of host ${host} can't be established. Its key fingerprint is ${fingerprint(key)}.`,
+      { modal: true, detail: `Trusting it adds the key to ${knownHostsPath}.` },
+      "Trust and Connect",
+    )
+    if (choice !== "Trust and Connect") {
+      return false
+    }
+
+    addHostKey(knownHostsPath, host, port, key)
+    return true
+  }
+
+  private async loadPrivateKey(keyPath: string): Promise<{ data: Buffer; passphrase?: string }> {
+    const data = fs.readFileSync(keyPath)
+    const key = sshUtils.parseKey(data)
+    if (!(key instanceof Error)) {
+      return { data }
+    }
+    if (!/passphrase/i.test(key.message)) {
+      throw new Error(`Unable to read private key ${keyPath}: ${key.message}`)
+    }
+
+    const secretKey = `ios-vscode.sshPassphrase.${keyPath}`
+    const stored = await this.secrets.get(secretKey)
+    if (stored && !(sshUtils.parseKey(data, stored) instanceof Error)) {
+      return { data, passphrase: stored }
+    }
+
+    const passphrase = await vscode.window.showInputBox({
+      prompt: `Enter passphrase for ${keyPath}`,
+      password: true,
+      ignoreFocusOut: true,
+    })
+    if (!passphrase || sshUtils.parseKey(data, passphrase) instanceof Error) {
+      await this.secrets.delete(secretKey)
+      throw new Error(`Incorrect passphrase for ${keyPath}`)
+    }
+
+    await this.secrets.store(secretKey, passphrase)
+    return { data, passphrase }
+  }
+
+  private async getSshPassword(host: string, username: string): Promise<string | undefined> {
+    const secretKey = `ios-vscode.sshPassword.${username}@${host}`
+    const password =
+      (await this.secrets.get(secretKey)) ||
+      (await vscode.window.showInputBox({
+        prompt: `Enter SSH password for ${username}@${host}`,
+        password: true,
+        ignoreFocusOut: true,
+      }))
+
+    this.sshPasswordAttempt = password ? { secretKey, password } : null
+    return password
+  }
+
+  // Passwords are only kept once the server has accepted them
+  private async storeSshPassword(): Promise<void> {
+    if (this.sshPasswordAttempt) {
+      await this.secrets.store(this.sshPasswordAttempt.secretKey, this.sshPasswordAttempt.password)
+      this.sshPasswordAttempt = null
+    }
+  }
+
+  private async forgetSshPassword(): Promise<void> {
+    if (this.sshPasswordAttempt) {
+      await this.secrets.delete(this.sshPasswordAttempt.secretKey)
+      this.sshPasswordAttempt = null
+    }
+  }
+
+  // Listens on an ephemeral local port and pipes every accepted socket through its own
+  // SSH channel to the server port on the remote host
   private async setupSSHTunnel(): Promise<void> {
+    this.closeTunnel()
+
     return new Promise((resolve, reject) => {
-      if (!this.sshClient) {
+      const sshClient = this.sshClient
+      if (!sshClient) {
         reject(new Error("SSH client not connected"))
         return
       }
 
-      // Create SSH tunnel for WebSocket connection (local port 8080 -> remote port 8080)
-      this.sshClient.forwardOut("127.0.0.1", 0, "127.0.0.1", 8080, (err, stream) => {
-        if (err) {
-          reject(err)
-          return
-        }
+      const tunnelServer = net.createServer((socket) => {
+        sshClient.forwardOut(
+          socket.remoteAddress || "127.0.0.1",
+          socket.remotePort || 0,
+          "127.0.0.1",
+          this.serverPort,
+          (err, stream) => {
+            if (err) {
+              this.log("SSH port forwarding failed:", err)
+              socket.destroy()
+              return
+            }
+
+            socket.pipe(stream).pipe(socket)
+            socket.on("error", () => stream.close())
+            stream.on("error", () => socket.destroy())
+            socket.on("close", () => stream.close())
+            stream.on("close", () => socket.destroy())
+          },
+        )
+      })
 
-        console.log("SSH tunnel established")
+      tunnelServer.once("error", reject)
+      tunnelServer.listen(0, "127.0.0.1", () => {
+        this.tunnelServer = tunnelServer
+        this.localPort = (tunnelServer.address() as net.AddressInfo).port
+        this.log(`SSH tunnel listening on 127.0.0.1:${this.localPort} -> ${this.serverHost}:${this.serverPort}`)
         resolve()
       })
     })
   }
 
-  private async connectWebSocket(): Promise<void> {
+  private closeTunnel(): void {
+    if (this.tunnelServer) {
+      this.tunnelServer.close()
+      this.tunnelServer = null
+      this.localPort = 0
+    }
+  }
+
+  // Resolves with the server's certificate for wss:// URLs, null for ws://
+  private async connectWebSocket(url: string): Promise<tls.PeerCertificate | null> {
     return new Promise((resolve, reject) => {
       try {
-        // Connect to WebSocket server through SSH tunnel
-        this.websocket = new WebSocket(`ws://localhost:8080/ios-vscode`)
-
-        this.websocket.on("open", () => {
-          console.log("WebSocket connection established")
-          this.sendMessage({
-            type: "authenticate",
-            data: { username: this.username },
-          })
-          resolve()
+        // Offer permessage-deflate; the server decides whether to use it
+        const websocket = new WebSocket(url, {
+          perMessageDeflate: { threshold: 1024 },
+          // Servers on a LAN usually have self-signed certificates; they are pinned by fingerprint instead
+          rejectUnauthorized: false,
+        })
+        this.websocket = websocket
+        let certificate: tls.PeerCertificate | null = null
+
+        websocket.once("upgrade", (response) => {
+          if (response.socket instanceof tls.TLSSocket) {
+            certificate = response.socket.getPeerCertificate()
+          }
         })
 
-        this.websocket.on("message", (data: WebSocket.Data) => {
+        websocket.on("open", () => {
+          this.log("WebSocket connection established")
+          resolve(certificate)
+        })
+
+        websocket.on("message", (data: WebSocket.Data, isBinary: boolean) => {
           try {
-            const message: ServerMessage = JSON.parse(data.toString())
-            this.handleServerMessage(message)
+            if (isBinary) {
+              const { message, payload } = parseBinaryServerMessage(data as Buffer)
+              this.handleServerMessage(message, payload)
+            } else {
+              this.handleServerMessage(parseServerMessage(data.toString()))
+            }
           } catch (error) {
-            console.error("Failed to parse server message:", error)
+            this.log("Failed to parse server message:", error)
           }
         })
 
-        this.websocket.on("error", (error) => {
-          console.error("WebSocket error:", error)
+        websocket.on("error", (error) => {
+          this.log("WebSocket error:", error)
           reject(error)
         })
 
-        this.websocket.on("close", () => {
-          console.log("WebSocket connection closed")
+        websocket.on("close", (code: number) => {
+          if (this.websocket !== websocket) return
+
+          this.log(`WebSocket connection closed (${code})`)
           this.handleDisconnection()
         })
       } catch (error) {
@@ -158,40 +661,150 @@ export class ServerConnection {
     })
   }
 
+  private async negotiateProtocol(): Promise<void> {
+    let response: ResponseData<"hello">
+    try {
+      response = await this.sendMessage({
+        type: "hello",
+        data: { protocolVersion: PROTOCOL_VERSION, minProtocolVersion: MIN_PROTOCOL_VERSION },
+      })
+    } catch (error) {
+      throw new Error(
+        `Protocol handshake failed (${(error as Error).message}). The server may be too old for this extension; please update it.`,
+      )
+    }
+
+    const version = negotiateVersion(response.protocolVersion, response.minProtocolVersion)
+    if (version === null) {
+      this.disconnect()
+      throw new Error(
+        `Server ${response.serverVersion} speaks protocol versions ${response.minProtocolVersion}-${response.protocolVersion}, ` +
+          `but this extension speaks versions ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}. ` +
+          "Update the extension or the server so both use a compatible version.",
+      )
+    }
+
+    this.serverVersion = response.serverVersion
+    this.log(`Negotiated protocol version ${version} with server ${response.serverVersion}`)
+  }
+
+  private async authenticate(): Promise<void> {
+    const keyPath = vscode.workspace.getConfiguration("ios-vscode").get<string>("authKeyPath")
+    if (keyPath) {
+      await this.authenticateWithKey(expandHome(keyPath))
+      return
+    }
+
+    const secretKey = `ios-vscode.token.${this.username}@${this.serverHost}`
+    let token = await this.secrets.get(secretKey)
+    if (!token) {
+      token = await vscode.window.showInputBox({
+        prompt: `Enter the server access token for ${this.username}`,
+        placeHolder: "Generate one on the server with: ios-vscode-server issue-token <username>",
+        password: true,
+        ignoreFocusOut: true,
+      })
+      if (!token) {
+        throw new Error("Access token required")
+      }
+    }
+
+    try {
+      const response = await this.sendMessage({
+        type: "authenticate",
+        data: { username: this.username, token, project: this.profile?.projectRoot },
+      })
+      this.resumeToken = response.resumeToken
+      await this.secrets.store(secretKey, token)
+    } catch (error) {
+      // Forget a rejected token so the next attempt prompts again
+      await this.secrets.delete(secretKey)
+      throw error
+    }
+  }
+
+  private async authenticateWithKey(keyPath: string): Promise<void> {
+    const { data, passphrase } = await this.loadPrivateKey(keyPath)
+    const key = sshUtils.parseKey(data, passphrase)
+    if (key instanceof Error) {
+      throw new Error(`Unable to read authentication key: ${key.message}`)
+    }
+
+    const { challenge } = await this.sendMessage({
+      type: "auth_challenge",
+      data: { username: this.username },
+    })
+    const signature = (Array.isArray(key) ? key[0] : key).sign(Buffer.from(challenge))
+    if (signature instanceof Error) {
+      throw new Error(`Unable to sign authentication challenge: ${signature.message}`)
+    }
+
+    const response = await this.sendMessage({
+      type: "authenticate",
+      data: { username: this.username, signature: signature.toString("base64"), project: this.profile?.projectRoot },
+    })
+    this.resumeToken = response.resumeToken
+  }
+
+  private async resumeSession(): Promise<boolean> {
+    if (!this.resumeToken) {
+      return false
+    }
+
+    try {
+      const response = await this.sendMessage({
+        type: "resume",
+        data: { resumeToken: this.resumeToken },
+      })
+      this.resumeToken = response.resumeToken
+      this.log("Resumed previous server session")
+      return true
+    } catch (error) {
+      this.log("Could not resume previous session, authenticating again:", error)
+      this.resumeToken = null
+      return false
+    }
+  }
+
   private setupMessageHandlers(): void {
-    this.messageHandlers.set("simulator_frame", (data) => {
-      // Handle simulator frame updates
-      this.notifySimulatorFrame(data)
+    this.messageHandlers.set("simulator_frame", (data, payload) => {
+      this.simulatorFrameEmitter.fire(payload ? { ...data, image: payload } : data)
     })
 
     this.messageHandlers.set("build_output", (data) => {
-      // Handle build output
-      this.notifyBuildOutput(data)
+      this.buildOutputEmitter.fire(data)
     })
 
-    this.messageHandlers.set("device_list", (data) => {
-      // Handle device list updates
-      this.notifyDeviceList(data)
+    this.messageHandlers.set("debug_output", (data) => {
+      this.debugOutputEmitter.fire(data)
     })
 
     this.messageHandlers.set("error", (data) => {
       vscode.window.showErrorMessage(`Server error: ${data.message}`)
     })
 
-    this.messageHandlers.set("file_changed", (data) => {
-      // Handle remote file changes
-      this.handleRemoteFileChange(data)
+    this.messageHandlers.set("file_changed", (data: EventMap["file_changed"], payload) => {
+      const content = data.deleted ? null : payload || Buffer.alloc(0)
+      this.fileChangedEmitter.fire({ path: data.path, content })
     })
-  }
 
-  private handleServerMessage(message: ServerMessage): void {
-    if (message.id && this.pendingRequests.has(message.id)) {
-      const request = this.pendingRequests.get(message.id)!
-      clearTimeout(request.timeout)
-      this.pendingRequests.delete(message.id)
+    this.messageHandlers.set("jobs_changed", (data) => {
+      this.jobsEmitter.fire(data.jobs)
+    })
+  }
 
-      if (message.type === "error") {
-        request.reject(new Error(message.data.message))
+  private handleServerMessage(message: ProtocolMessage, payload?: Buffer): void {
+    if (message.id && message.type === "progress") {
+      this.pendingRequests.get(message.id)?.onProgress?.(message.data)
+      return
+    }
+    if (message.id) {
+      const request = this.takePendingRequest(message.id)
+      if (!request) {
+        // Late response to a request that timed out or was cancelled
+        this.log(`Ignoring ${message.type} for request ${message.id}`)
+      } else if (message.type === "error") {
+        request.reject(new ServerError(message.data.message, message.data.code, message.data.path))
       } else {
         request.resolve(message.data)
       }
@@ -200,39 +813,87 @@ export class ServerConnection {
 
     const handler = this.messageHandlers.get(message.type)
     if (handler) {
-      handler(message.data)
+      handler(message.data, payload)
     } else {
-      console.warn("Unhandled server message type:", message.type)
+      this.log("Unhandled server message type:", message.type)
     }
   }
 
-  private sendMessage(message: ServerMessage): Promise<any> {
+  sendMessage<T extends RequestType>(
+    message: { type: T; data: RequestData<T> },
+    options: RequestOptions = {},
+  ): Promise<ResponseData<T>> {
     return new Promise((resolve, reject) => {
       if (!this.websocket || this.websocket.readyState !== WebSocket.OPEN) {
         reject(new Error("WebSocket not connected"))
         return
       }
+      if (options.token?.isCancellationRequested) {
+        reject(new vscode.CancellationError())
+        return
+      }
 
       const messageId = Math.random().toString(36).substr(2, 9)
-      message.id = messageId
+      const timeoutMs = options.timeout ?? REQUEST_TIMEOUTS[message.type] ?? DEFAULT_REQUEST_TIMEOUT
+      const request: PendingRequest = {
+        resolve,
+        reject,
+        onProgress: options.onProgress,
+        timeout: null,
+        cancellation: null,
+      }
 
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(messageId)
-        reject(new Error("Request timeout"))
-      }, 30000) // 30 second timeout
+      if (timeoutMs > 0) {
+        request.timeout = setTimeout(() => {
+          this.takePendingRequest(messageId)
+          this.cancelOnServer(messageId)
+          reject(new Error(`Request timeout: ${message.type} did not finish within ${timeoutMs / 1000} s`))
+        }, timeoutMs)
+      }
+      if (options.token) {
+        request.cancellation = options.token.onCancellationRequested(() => {
+          this.takePendingRequest(messageId)
+          this.cancelOnServer(messageId)
+          reject(new vscode.CancellationError())
+        })
+      }
 
-      this.pendingRequests.set(messageId, { resolve, reject, timeout })
+      this.pendingRequests.set(messageId, request)
 
       try {
-        this.websocket.send(JSON.stringify(message))
+        if (options.payload) {
+          this.websocket.send(encodeBinaryMessage({ ...message, id: messageId }, options.payload), { binary: true })
+        } else {
+          this.websocket.send(JSON.stringify({ ...message, id: messageId }))
+        }
       } catch (error) {
-        clearTimeout(timeout)
-        this.pendingRequests.delete(messageId)
+        this.takePendingRequest(messageId)
         reject(error)
       }
     })
   }
 
+  // Removes a request from pendingRequests and stops its timer and cancellation listener
+  private takePendingRequest(messageId: string): PendingRequest | undefined {
+    const request = this.pendingRequests.get(messageId)
+    if (request) {
+      this.pendingRequests.delete(messageId)
+      if (request.timeout) clearTimeout(request.timeout)
+      request.cancellation?.dispose()
+    }
+    return request
+  }
+
+  // Asks the server to stop a request nobody is waiting for any more, e.g. to kill its xcodebuild
+  private cancelOnServer(requestId: string): void {
+    if (!this.isConnected()) {
+      return
+    }
+    this.sendMessage({ type: "cancel", data: { requestId } }).catch((error) => {
+      this.log(`Failed to cancel request ${requestId}:`, error)
+    })
+  }
+
   private async initializeProjectSync(): Promise<void> {
     // Setup file watcher for local project files
     const workspaceFolders = vscode.workspace.workspaceFolders
@@ -240,10 +901,13 @@ export class ServerConnection {
       return
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath
-
-    // Watch for Swift file changes
-    this.fileWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, "**/*.swift"))
+    // Watch all files in every workspace folder; ProjectSync decides which ones are synced. The watcher
+    // outlives dropped connections so changes made while reconnecting are queued rather than missed.
+    if (this.fileWatcher) {
+      await this.syncProjectToServer()
+      return
+    }
+    this.fileWatcher = vscode.workspace.createFileSystemWatcher("**/*")
 
     this.fileWatcher.onDidChange(async (uri) => {
       await this.syncFileToServer(uri)
@@ -257,42 +921,107 @@ export class ServerConnection {
       await this.deleteFileOnServer(uri)
     })
 
+    const resync = () => {
+      this.projectSync.invalidateFilter()
+      if (this.isConnected()) this.syncProjectToServer()
+    }
+    this.syncListeners.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("ios-vscode.sync")) resync()
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(resync),
+    )
+
     // Initial project sync
     await this.syncProjectToServer()
   }
 
   private async syncFileToServer(uri: vscode.Uri): Promise<void> {
     try {
-      const content = await vscode.workspace.fs.readFile(uri)
-      const relativePath = vscode.workspace.asRelativePath(uri)
+      if (IGNORE_FILES.includes(path.basename(uri.fsPath))) {
+        this.projectSync.invalidateFilter()
+      }
+      if (!(await this.projectSync.isIncluded(uri))) {
+        return
+      }
 
-      await this.sendMessage({
-        type: "sync_file",
-        data: {
-          path: relativePath,
-          content: content.toString(),
-          lastModified: Date.now(),
-        },
-      })
+      // A folder moved into the workspace only reports the folder itself
+      const stats = await vscode.workspace.fs.stat(uri)
+      if (stats.type & vscode.FileType.Directory) {
+        if (this.isConnected()) await this.syncProjectToServer()
+        return
+      }
 
-      console.log(`Synced file to server: ${relativePath}`)
+      // Saves that did not change anything, and files just pulled from the server, need no upload
+      const file = await this.projectSync.readFile(uri)
+      if (file && !(this.projectSync.hasSynced(file) && !this.offlineQueue.has(file.path))) {
+        this.enqueue({ type: "sync_file", data: file })
+      }
     } catch (error) {
-      console.error("Failed to sync file to server:", error)
+      this.log("Failed to read file for sync:", error)
     }
   }
 
   private async deleteFileOnServer(uri: vscode.Uri): Promise<void> {
+    if (IGNORE_FILES.includes(path.basename(uri.fsPath))) {
+      this.projectSync.invalidateFilter()
+    }
+    const remotePath = toRemotePath(uri)
+    if (!remotePath || !(await this.projectSync.isIncluded(uri).catch(() => false))) {
+      return
+    }
+
+    this.enqueue({
+      type: "delete_file",
+      data: { path: remotePath },
+    })
+  }
+
+  private enqueue(request: QueuedRequest): void {
+    // Re-inserting moves the path to the end so the queue stays in order of the latest change
+    this.offlineQueue.delete(request.data.path)
+    this.offlineQueue.set(request.data.path, request)
+    this.updateStatus({ pendingCount: this.offlineQueue.size })
+
+    if (this.isConnected()) {
+      this.flushQueue()
+    }
+  }
+
+  // Sends queued file operations in order. Stops when the connection drops, leaving the rest queued.
+  private async flushQueue(): Promise<void> {
+    if (this.flushingQueue) {
+      return
+    }
+    this.flushingQueue = true
+
     try {
-      const relativePath = vscode.workspace.asRelativePath(uri)
+      while (this.offlineQueue.size > 0 && this.websocket?.readyState === WebSocket.OPEN) {
+        const [key, request] = this.offlineQueue.entries().next().value as [string, QueuedRequest]
 
-      await this.sendMessage({
-        type: "delete_file",
-        data: { path: relativePath },
-      })
+        try {
+          await this.sendMessage(request)
+          this.projectSync.recordSynced(
+            key,
+            request.type === "sync_file" ? hashContent(decodeSyncedFile(request.data)) : null,
+          )
+          this.log(`${request.type === "sync_file" ? "Synced" : "Deleted"} file on server: ${key}`)
+        } catch (error) {
+          if (this.websocket?.readyState !== WebSocket.OPEN) {
+            break
+          }
+          this.log(`Server rejected ${request.type} for ${key}:`, error)
+          this.reportFileError(error)
+        }
 
-      console.log(`Deleted file on server: ${relativePath}`)
-    } catch (error) {
-      console.error("Failed to delete file on server:", error)
+        // A newer change to the same path may have been queued while this one was in flight
+        if (this.offlineQueue.get(key) === request) {
+          this.offlineQueue.delete(key)
+        }
+        this.updateStatus({ pendingCount: this.offlineQueue.size })
+      }
+    } finally {
+      this.flushingQueue = false
     }
   }
 
@@ -303,100 +1032,290 @@ export class ServerConnection {
     }
 
     try {
-      const files = await vscode.workspace.findFiles("**/*.swift", "**/node_modules/**")
-      const projectFiles: ProjectFile[] = []
-
-      for (const file of files) {
-        const content = await vscode.workspace.fs.readFile(file)
-        const relativePath = vscode.workspace.asRelativePath(file)
-        const stats = await vscode.workspace.fs.stat(file)
-
-        projectFiles.push({
-          path: relativePath,
-          content: content.toString(),
-          lastModified: stats.mtime,
-        })
+      const { uploaded, deleted, failed } = await this.projectSync.sync()
+
+      if (failed.length > 0) {
+        this.reportRejectedFiles(failed)
+      }
+      if (uploaded > 0 || deleted > 0) {
+        vscode.window.showInformationMessage(`Synced ${uploaded} files to server, deleted ${deleted}`)
       }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to sync project: ${error}`)
+      return
+    }
+
+    await this.watchServerOutputs()
+    await this.selectBuildFolder()
+  }
 
+  // In multi-root workspaces, builds run in the subdirectory of the folder with the Xcode project:
+  // `ios-vscode.sync.buildFolder` if set, otherwise the first folder containing a project or workspace.
+  // Builds use the `ios-vscode.sync.buildScheme` scheme, or the project's first one when it is empty.
+  private async selectBuildFolder(): Promise<void> {
+    const roots = getSyncRoots()
+    const settings = vscode.workspace.getConfiguration("ios-vscode.sync")
+    const scheme = settings.get<string>("buildScheme") || undefined
+    // Sent even without a scheme so clearing the setting takes effect
+    if (roots.length <= 1) {
+      await this.sendBuildFolder({ path: "", scheme }, "the project")
+      return
+    }
+
+    const configured = settings.get<string>("buildFolder")
+    let buildRoot = roots.find((root) => root.folder.name === configured)
+    for (const root of buildRoot ? [] : roots) {
+      const pattern = "{*.xcworkspace/contents.xcworkspacedata,*.xcodeproj/project.pbxproj}"
+      if ((await vscode.workspace.findFiles(new vscode.RelativePattern(root.folder, pattern), null, 1)).length > 0) {
+        buildRoot = root
+        break
+      }
+    }
+    buildRoot = buildRoot || roots[0]
+    await this.sendBuildFolder(
+      { path: buildRoot.remotePath, scheme },
+      `${buildRoot.remotePath} (${buildRoot.folder.name})`,
+    )
+  }
+
+  private async sendBuildFolder(data: RequestData<"set_build_folder">, description: string): Promise<void> {
+    try {
+      await this.sendMessage({ type: "set_build_folder", data })
+      this.log(`Building ${data.scheme ? `scheme ${data.scheme} ` : ""}in ${description}`)
+    } catch (error) {
+      this.log("Failed to select the build folder:", error)
+    }
+  }
+
+  // Subscribes to changes of server-generated files; the server also sends any that differ from ours
+  private async watchServerOutputs(): Promise<void> {
+    const patterns = getPullPatterns()
+    try {
       await this.sendMessage({
-        type: "sync_project",
-        data: { files: projectFiles },
+        type: "watch_files",
+        data: { patterns, known: this.projectSync.getLocalHashes(patterns), exclude: getRemoteExcludePatterns() },
       })
-
-      vscode.window.showInformationMessage(`Synced ${projectFiles.length} files to server`)
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to sync project: ${error}`)
+      this.log("Failed to watch server outputs:", error)
     }
   }
 
-  private handleRemoteFileChange(data: any): void {
-    // Handle file changes from the server (e.g., generated files, build artifacts)
-    console.log("Remote file changed:", data)
+  private reportFileError(error: unknown): void {
+    if (error instanceof ServerError && error.code && error.path) {
+      this.reportRejectedFiles([{ path: error.path, code: error.code, message: error.message }])
+    }
   }
 
-  private handleConnectionError(): void {
-    this.connected = false
-    vscode.commands.executeCommand("setContext", "ios-vscode.connected", false)
+  private reportRejectedFiles(failed: FileError[]): void {
+    for (const file of failed) {
+      this.log(`Server rejected ${file.path} (${file.code}): ${file.message}`)
+    }
 
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++
-      vscode.window.showWarningMessage(
-        `Connection lost. Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`,
-      )
+    const summary =
+      failed.length === 1
+        ? `Server rejected ${failed[0].path}: ${failed[0].message}`
+        : `Server rejected ${failed.length} files: ${failed.map((file) => `${file.path} (${file.code})`).join(", ")}`
+    vscode.window.showWarningMessage(summary)
+  }
 
-      setTimeout(() => {
-        this.connect(this.serverHost, this.serverPort, this.username).catch((error) => {
-          console.error("Reconnection failed:", error)
-        })
-      }, this.reconnectInterval)
-    } else {
+  // Retries with jittered exponential backoff: 1s, 2s, 4s... capped at a minute, each delay
+  // randomized between half and the full value so clients do not reconnect in lockstep
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || !this.profile) {
+      return
+    }
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.reconnectAttempts = 0
+      this.updateStatus({ state: "disconnected", latency: null })
       vscode.window.showErrorMessage("Connection lost. Maximum reconnection attempts reached.")
+      return
     }
+
+    const ceiling = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts)
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2))
+    this.reconnectAttempts++
+    this.updateStatus({ state: "reconnecting", latency: null })
+    this.log(`Reconnecting in ${delay} ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`)
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.closeTransport()
+
+      this.connect(this.profile!).catch((error: Error & { level?: string }) => {
+        this.log("Reconnection failed:", error)
+
+        // Retrying cannot fix rejected credentials or an untrusted host key
+        if (error.level === "client-authentication" || error.level === "handshake") {
+          this.reconnectAttempts = 0
+          this.updateStatus({ state: "disconnected", latency: null })
+          vscode.window.showErrorMessage(`Reconnection failed: ${error.message}`)
+        } else {
+          this.scheduleReconnect()
+        }
+      })
+    }, delay)
   }
 
+  // Called when the WebSocket or SSH connection drops without disconnect() being called
   private handleDisconnection(): void {
-    this.connected = false
-    vscode.commands.executeCommand("setContext", "ios-vscode.connected", false)
+    const wasConnected = this.status.state === "connected"
+    this.closeTransport()
+
+    if (wasConnected) {
+      this.scheduleReconnect()
+    }
+  }
 
+  disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.reconnectAttempts = 0
+    this.closeTransport()
     if (this.fileWatcher) {
       this.fileWatcher.dispose()
       this.fileWatcher = null
     }
+    this.syncListeners.forEach((listener) => listener.dispose())
+    this.syncListeners = []
+    this.updateStatus({ state: "disconnected", latency: null, healthy: true })
+    this.log("Disconnected")
+  }
+
+  // Tears down the SSH connection, tunnel and WebSocket. Clearing the fields first makes
+  // their close handlers ignore the events this triggers.
+  private closeTransport(): void {
+    const websocket = this.websocket
+    this.websocket = null
+    websocket?.close()
+
+    this.closeTunnel()
+    const sshClient = this.sshClient
+    this.sshClient = null
+    sshClient?.end()
+    this.closeJumpHost()
+
+    this.connected = false
+    vscode.commands.executeCommand("setContext", "ios-vscode.connected", false)
+    this.stopPing()
 
     // Clear pending requests
-    this.pendingRequests.forEach((request) => {
-      clearTimeout(request.timeout)
-      request.reject(new Error("Connection closed"))
+    for (const messageId of [...this.pendingRequests.keys()]) {
+      this.takePendingRequest(messageId)!.reject(new Error("Connection closed"))
+    }
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status
+  }
+
+  showLog(): void {
+    this.outputChannel.show()
+  }
+
+  // Measures round-trip latency and refreshes the server's Xcode version
+  async ping(): Promise<number> {
+    const sentAt = Date.now()
+    const response = await this.sendMessage({
+      type: "ping",
+      data: { timestamp: sentAt },
     })
-    this.pendingRequests.clear()
+    const latency = Date.now() - sentAt
+
+    this.updateStatus({ latency, healthy: latency < SLOW_LATENCY, xcodeVersion: response.xcodeVersion })
+    return latency
   }
 
-  disconnect(): void {
-    if (this.websocket) {
-      this.websocket.close()
-      this.websocket = null
+  private startPing(): void {
+    this.stopPing()
+
+    const pingOnce = () => {
+      this.ping().catch((error) => {
+        this.log("Ping failed:", error)
+        this.updateStatus({ latency: null, healthy: false })
+      })
     }
-    if (this.sshClient) {
-      this.sshClient.end()
-      this.sshClient = null
+    pingOnce()
+    this.pingTimer = setInterval(pingOnce, PING_INTERVAL)
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = null
     }
-    if (this.fileWatcher) {
-      this.fileWatcher.dispose()
-      this.fileWatcher = null
+  }
+
+  private updateStatus(changes: Partial<ConnectionStatus>): void {
+    const previousState = this.status.state
+    this.status = { ...this.status, ...changes }
+    this.statusEmitter.fire(this.status)
+    if (this.status.state !== previousState) {
+      this.connectionStateEmitter.fire(this.status.state)
     }
-    this.connected = false
-    vscode.commands.executeCommand("setContext", "ios-vscode.connected", false)
+  }
+
+  private log(message: string, detail?: unknown): void {
+    let line = message
+    if (detail !== undefined) {
+      line += ` ${detail instanceof Error ? detail.message : typeof detail === "string" ? detail : JSON.stringify(detail)}`
+    }
+    this.outputChannel.appendLine(`[${new Date().toISOString()}] ${line}`)
+  }
+
+  getProfile(): ServerProfile | null {
+    return this.profile
+  }
+
+  getServerVersion(): string {
+    return this.serverVersion
   }
 
   isConnected(): boolean {
     return this.connected && this.websocket?.readyState === WebSocket.OPEN
   }
 
-  async executeCommand(command: string): Promise<string> {
-    return this.sendMessage({
-      type: "execute_command",
+  async listOperations(): Promise<OperationInfo[]> {
+    const response = await this.sendMessage({
+      type: "list_operations",
+      data: {},
+    })
+    return response.operations
+  }
+
+  // Runs one of the server's named operations, e.g. runOperation("simctl.openurl", { url: "myapp://home" })
+  async runOperation(operation: string, args: Record<string, string | number | boolean> = {}): Promise<string> {
+    const response = await this.sendMessage({
+      type: "run_operation",
+      data: { operation, args },
+    })
+    return response.output
+  }
+
+  // Only succeeds when the server admin has enabled allowRawShell
+  async runShellCommand(command: string): Promise<string> {
+    const response = await this.sendMessage({
+      type: "run_shell",
       data: { command },
     })
+    return response.output
+  }
+
+  async listJobs(): Promise<JobInfo[]> {
+    const response = await this.sendMessage({
+      type: "list_jobs",
+      data: {},
+    })
+    return response.jobs
+  }
+
+  async cancelJob(jobId: string): Promise<boolean> {
+    const response = await this.sendMessage({
+      type: "cancel_job",
+      data: { jobId },
+    })
+    return response.cancelled
   }
 
   async getAvailableDevices(): Promise<string[]> {
@@ -414,51 +1333,82 @@ export class ServerConnection {
     })
   }
 
-  async sendSimulatorInput(inputData: any): Promise<void> {
+  async sendSimulatorInput(inputData: SimulatorInput): Promise<void> {
     await this.sendMessage({
       type: "simulator_input",
       data: inputData,
     })
   }
 
-  async deployToDevice(): Promise<void> {
-    await this.sendMessage({
-      type: "deploy_device",
-      data: {},
-    })
+  // Tells the server a streamed frame has been drawn. Acks get no response, so this does not wait for one.
+  ackFrame(sequence: number): void {
+    if (this.websocket?.readyState === WebSocket.OPEN) {
+      this.websocket.send(JSON.stringify({ type: "frame_ack", data: { sequence } }))
+    }
   }
 
-  async buildProject(): Promise<void> {
-    await this.sendMessage({
-      type: "build_project",
-      data: {},
-    })
+  async deployToDevice(token?: vscode.CancellationToken): Promise<void> {
+    await this.sendMessage(
+      {
+        type: "deploy_device",
+        data: {},
+      },
+      { token },
+    )
   }
 
-  async runProject(): Promise<void> {
-    await this.sendMessage({
-      type: "run_project",
-      data: {},
-    })
+  async buildProject(token?: vscode.CancellationToken): Promise<void> {
+    await this.sendMessage(
+      {
+        type: "build_project",
+        data: {},
+      },
+      { token },
+    )
   }
 
-  // Event notification methods
-  private notifySimulatorFrame(data: any): void {
-    // Emit event for simulator frame updates
-    vscode.commands.executeCommand("ios-vscode.simulatorFrameUpdate", data)
+  async runProject(token?: vscode.CancellationToken): Promise<void> {
+    await this.sendMessage(
+      {
+        type: "run_project",
+        data: {},
+      },
+      { token },
+    )
   }
 
-  private notifyBuildOutput(data: any): void {
-    // Show build output in VS Code terminal
-    const outputChannel = vscode.window.createOutputChannel("iOS Build")
-    outputChannel.appendLine(data.output)
+  private showBuildOutput(data: EventMap["build_output"]): void {
+    if (!this.buildOutputChannel) {
+      this.buildOutputChannel = vscode.window.createOutputChannel("iOS Build")
+    }
+    this.buildOutputChannel.appendLine(data.output)
     if (data.show) {
-      outputChannel.show()
+      this.buildOutputChannel.show()
     }
   }
 
-  private notifyDeviceList(data: any): void {
-    // Refresh device tree view
-    vscode.commands.executeCommand("ios-vscode.refreshDevices")
+  dispose(): void {
+    this.remoteFileSync.dispose()
+    this.statusEmitter.dispose()
+    this.connectionStateEmitter.dispose()
+    this.simulatorFrameEmitter.dispose()
+    this.buildOutputEmitter.dispose()
+    this.debugOutputEmitter.dispose()
+    this.fileChangedEmitter.dispose()
+    this.jobsEmitter.dispose()
+    this.buildOutputChannel?.dispose()
+    this.outputChannel.dispose()
   }
 }
+
+function expandHome(filePath: string): string {
+  return filePath.replace(/^~(?=$|\/)/, os.homedir())
+}
+
+// Accepts fingerprints with or without colons, in either case, as printed by the server or openssl
+function normalizeFingerprint(value: string): string {
+  return value
+    .replace(/^sha256:?\s*/i, "")
+    .replace(/[:\s]/g, "")
+    .toUpperCase()
+}
@@ -0,0 +1,156 @@
+import * as vscode from "vscode"
+
+export type SshAuthMethod = "auto" | "password" | "key" | "agent"
+// ssh tunnels the server port over SSH; direct talks wss:// to the server, e.g. on a trusted LAN
+export type ConnectionMode = "ssh" | "direct"
+
+export interface ServerProfile {
+  name: string
+  host: string
+  username: string
+  connection?: ConnectionMode
+  // SHA-256 fingerprint of the server's TLS certificate, pinned on the first direct connection
+  tlsFingerprint?: string
+  sshPort?: number
+  serverPort?: number
+  // URL path of the server's WebSocket endpoint, the server's `path` setting
+  serverPath?: string
+  authMethod?: SshAuthMethod
+  privateKeyPath?: string
+  proxyJump?: string
+  // Project directory on the server, relative to the user's project root
+  projectRoot?: string
+}
+
+const LAST_USED_KEY = "ios-vscode.lastServer"
+
+// Named server profiles from `ios-vscode.servers`, with the last used one remembered per workspace
+export class ServerProfileService {
+  private activeProfile: ServerProfile | undefined
+  private activeProfileEmitter = new vscode.EventEmitter<ServerProfile>()
+
+  readonly onDidChangeActiveProfile = this.activeProfileEmitter.event
+
+  constructor(private workspaceState: vscode.Memento) {
+    this.activeProfile = this.getLastUsedProfile()
+  }
+
+  getProfiles(): ServerProfile[] {
+    const config = vscode.workspace.getConfiguration("ios-vscode")
+    const profiles = (config.get<ServerProfile[]>("servers") || []).filter(
+      (profile) => profile && profile.name && profile.host && profile.username,
+    )
+
+    // Fall back to the single-server settings used before profiles existed
+    const host = config.get<string>("serverHost")
+    const username = config.get<string>("sshUsername")
+    if (profiles.length === 0 && host && username) {
+      profiles.push({ name: `${username}@${host}`, host, username, serverPort: config.get<number>("serverPort") })
+    }
+
+    return profiles
+  }
+
+  getLastUsedProfile(): ServerProfile | undefined {
+    const name = this.workspaceState.get<string>(LAST_USED_KEY)
+    return this.getProfiles().find((profile) => profile.name === name)
+  }
+
+  getActiveProfile(): ServerProfile | undefined {
+    return this.activeProfile
+  }
+
+  async setActiveProfile(profile: ServerProfile): Promise<void> {
+    this.activeProfile = profile
+    await this.workspaceState.update(LAST_USED_KEY, profile.name)
+    this.activeProfileEmitter.fire(profile)
+  }
+
+  async pickProfile(placeHolder = "Select a macOS server"): Promise<ServerProfile | undefined> {
+    const items: Array<vscode.QuickPickItem & { profile?: ServerProfile }> = this.getProfiles().map((profile) => ({
+      label: profile.name,
+      description:
+        profile.connection === "direct"
+          ? `${profile.username} · wss://${profile.host}`
+          : `${profile.username}@${profile.host}`,
+      detail: profile.name === this.activeProfile?.name ? "Active" : undefined,
+      profile,
+    }))
+    items.push({ label: "$(add) Add Server...", alwaysShow: true })
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder })
+    if (!selected) {
+      return undefined
+    }
+    return selected.profile || this.addProfile()
+  }
+
+  // Prompts for a new server and appends it to the user's `ios-vscode.servers`
+  async addProfile(): Promise<ServerProfile | undefined> {
+    const host = await vscode.window.showInputBox({
+      prompt: "Enter macOS server hostname or IP address",
+      ignoreFocusOut: true,
+    })
+    if (!host) return undefined
+
+    const mode = await vscode.window.showQuickPick(
+      [
+        { label: "SSH Tunnel", description: "Forward the server port over SSH", connection: "ssh" as const },
+        {
+          label: "Direct",
+          description: "Connect to the server over wss:// on a trusted network",
+          connection: "direct" as const,
+        },
+      ],
+      { placeHolder: "How should VS Code reach the server?", ignoreFocusOut: true },
+    )
+    if (!mode) return undefined
+
+    const username = await vscode.window.showInputBox({
+      prompt: mode.connection === "direct" ? "Enter your username on the server" : "Enter SSH username",
+      ignoreFocusOut: true,
+    })
+    if (!username) return undefined
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Enter a name for this server",
+      value: host,
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        this.getProfiles().some((profile) => profile.name === value) ? "A server with this name already exists" : null,
+    })
+    if (!name) return undefined
+
+    const profile: ServerProfile = { name, host, username }
+    if (mode.connection === "direct") {
+      profile.connection = "direct"
+    }
+    const config = vscode.workspace.getConfiguration("ios-vscode")
+    const configured = config.inspect<ServerProfile[]>("servers")?.globalValue || []
+    await config.update("servers", [...configured, profile], vscode.ConfigurationTarget.Global)
+    return profile
+  }
+
+  // Saves changes to a profile in whichever settings scope defines it
+  static async updateProfile(name: string, changes: Partial<ServerProfile>): Promise<void> {
+    const config = vscode.workspace.getConfiguration("ios-vscode")
+    const inspected = config.inspect<ServerProfile[]>("servers")
+    const scopes = [
+      { target: vscode.ConfigurationTarget.WorkspaceFolder, value: inspected?.workspaceFolderValue },
+      { target: vscode.ConfigurationTarget.Workspace, value: inspected?.workspaceValue },
+      { target: vscode.ConfigurationTarget.Global, value: inspected?.globalValue },
+    ]
+
+    for (const { target, value } of scopes) {
+      if (value?.some((profile) => profile.name === name)) {
+        const updated = value.map((profile) => (profile.name === name ? { ...profile, ...changes } : profile))
+        await config.update("servers", updated, target)
+        return
+      }
+    }
+  }
+
+  dispose(): void {
+    this.activeProfileEmitter.dispose()
+  }
+}
@@ -1,5 +1,7 @@
 import * as vscode from "vscode"
-import type { ServerConnection } from "./serverConnection"
+import type { ServerConnection, SimulatorFrame } from "./serverConnection"
+
+const MAX_FPS = 30
 
 export interface DeviceSpec {
   name: string
@@ -11,20 +13,14 @@ export interface DeviceSpec {
   homeIndicator: boolean
 }
 
-export interface SimulatorFrame {
-  imageData: string // Base64 encoded image
-  width: number
-  height: number
-  orientation: "portrait" | "landscape"
-  timestamp: number
-}
-
 export class SimulatorService {
   private currentDevice: DeviceSpec
   private currentOrientation: "portrait" | "landscape" = "portrait"
   private simulatorPanel: vscode.WebviewPanel | null = null
-  private frameUpdateInterval: NodeJS.Timeout | null = null
+  // The server is pushing frames to us
+  private streaming = false
   private touchEnabled = true
+  private subscriptions: vscode.Disposable[]
 
   private deviceSpecs: Map<string, DeviceSpec> = new Map([
     [
@@ -91,14 +87,17 @@ export class SimulatorService {
 
   constructor(private serverConnection: ServerConnection) {
     this.currentDevice = this.deviceSpecs.get("iPhone 15 Pro")!
-    this.setupMessageHandlers()
-  }
-
-  private setupMessageHandlers(): void {
-    // Listen for simulator frame updates from server
-    vscode.commands.registerCommand("ios-vscode.simulatorFrameUpdate", (frameData: SimulatorFrame) => {
-      this.handleFrameUpdate(frameData)
-    })
+    this.subscriptions = [
+      this.serverConnection.onSimulatorFrame((frame) => this.handleFrameUpdate(frame)),
+      this.serverConnection.onConnectionStateChanged((state) => {
+        if (state === "connected") {
+          // The server drops frame streams with the socket
+          if (this.simulatorPanel) this.startFrameUpdates()
+        } else {
+          this.streaming = false
+        }
+      }),
+    ]
   }
 
   async openSimulator(): Promise<void> {
@@ -130,10 +129,7 @@ export class SimulatorService {
     // Handle panel disposal
     this.simulatorPanel.onDidDispose(() => {
       this.simulatorPanel = null
-      if (this.frameUpdateInterval) {
-        clearInterval(this.frameUpdateInterval)
-        this.frameUpdateInterval = null
-      }
+      this.stopFrameUpdates()
     })
 
     // Start requesting frames from server
@@ -141,36 +137,38 @@ export class SimulatorService {
   }
 
   private async startFrameUpdates(): Promise<void> {
-    // Request initial frame
-    await this.requestFrame()
+    this.stopFrameUpdates()
+    if (!this.serverConnection.isConnected()) return
 
-    // Set up periodic frame updates (30 FPS)
-    this.frameUpdateInterval = setInterval(async () => {
-      if (this.serverConnection.isConnected()) {
-        await this.requestFrame()
-      }
-    }, 1000 / 30)
-  }
-
-  private async requestFrame(): Promise<void> {
     try {
       await this.serverConnection.sendMessage({
-        type: "request_frame",
-        data: {
-          device: this.currentDevice.name,
-          orientation: this.currentOrientation,
-        },
+        type: "start_frame_stream",
+        data: { orientation: this.currentOrientation, maxFps: MAX_FPS },
       })
+      this.streaming = true
     } catch (error) {
-      console.error("Failed to request simulator frame:", error)
+      console.error("Failed to start simulator frame stream:", error)
+    }
+  }
+
+  private stopFrameUpdates(): void {
+    if (this.streaming) {
+      this.streaming = false
+      this.serverConnection.sendMessage({ type: "stop_frame_stream", data: {} }).catch((error) => {
+        console.error("Failed to stop simulator frame stream:", error)
+      })
     }
   }
 
   private handleFrameUpdate(frameData: SimulatorFrame): void {
     if (this.simulatorPanel) {
+      // Plain typed arrays are transferred to the webview without copying through JSON
+      const image =
+        frameData.image &&
+        new Uint8Array(frameData.image.buffer, frameData.image.byteOffset, frameData.image.byteLength)
       this.simulatorPanel.webview.postMessage({
         command: "updateFrame",
-        data: frameData,
+        data: { ...frameData, image },
       })
     }
   }
@@ -193,6 +191,10 @@ export class SimulatorService {
         await this.rotateDevice()
         break
 
+      case "frameDrawn":
+        this.serverConnection.ackFrame(message.data.sequence)
+        break
+
       case "ready":
         // Webview is ready, send initial device info
         this.simulatorPanel?.webview.postMessage({
@@ -268,6 +270,10 @@ export class SimulatorService {
 
     this.currentDevice = deviceSpec
     await this.serverConnection.selectDevice(deviceName)
+    // Streams capture the simulator that was selected when they started
+    if (this.streaming) {
+      await this.startFrameUpdates()
+    }
 
     // Update webview with new device info
     if (this.simulatorPanel) {
@@ -291,6 +297,9 @@ export class SimulatorService {
         type: "rotate",
         orientation: this.currentOrientation,
       })
+      if (this.streaming) {
+        await this.startFrameUpdates()
+      }
 
       // Update webview
       if (this.simulatorPanel) {
@@ -740,22 +749,32 @@ export class SimulatorService {
             }
             
             function handleFrameUpdate(frameData) {
-                if (!ctx || !frameData.imageData) return;
+                if (!ctx || !frameData.image) return;
                 
                 // Hide placeholder
                 document.getElementById('placeholderContent').style.display = 'none';
                 
-                // Create image from base64 data
+                const src = URL.createObjectURL(new Blob([frameData.image], { type: 'image/png' }));
+                const release = () => {
+                    URL.revokeObjectURL(src);
+                    // Streamed frames are acknowledged so the server paces itself to what we can draw
+                    if (frameData.sequence !== undefined) {
+                        vscode.postMessage({ command: 'frameDrawn', data: { sequence: frameData.sequence } });
+                    }
+                };
+                
                 const img = new Image();
                 img.onload = () => {
                     // Clear canvas and draw new frame
                     ctx.clearRect(0, 0, canvas.width, canvas.height);
                     ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+                    release();
                     
                     // Update performance stats
                     updatePerformanceStats(frameData.timestamp);
                 };
-                img.src = 'data:image/png;base64,' + frameData.imageData;
+                img.onerror = release;
+                img.src = src;
             }
             
             function updatePerformanceStats(timestamp) {
@@ -791,4 +810,9 @@ export class SimulatorService {
   getCurrentOrientation(): "portrait" | "landscape" {
     return this.currentOrientation
   }
+
+  dispose(): void {
+    this.subscriptions.forEach((subscription) => subscription.dispose())
+    this.simulatorPanel?.dispose()
+  }
 }
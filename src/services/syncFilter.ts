@@ -0,0 +1,123 @@
+import * as vscode from "vscode"
+import { globToRegExp, matchesGlob } from "../shared/glob"
+import { getFolderRelativePath, getSyncRoots, joinRemotePath, type SyncRoot } from "./workspaceMapping"
+
+export const IGNORE_FILES = [".gitignore", ".iosvscodeignore"]
+
+// The `ios-vscode.sync.exclude` globs of every workspace folder, relative to the server project,
+// so the server can skip the same directories when watching for generated files
+export function getRemoteExcludePatterns(roots = getSyncRoots()): string[] {
+  return roots.flatMap((root) =>
+    (vscode.workspace.getConfiguration("ios-vscode.sync", root.folder).get<string[]>("exclude") || []).map((pattern) =>
+      joinRemotePath(root, pattern),
+    ),
+  )
+}
+
+interface IgnoreRule {
+  regExp: RegExp
+  negated: boolean
+  directoryOnly: boolean
+}
+
+// Decides which files of a workspace folder are synced to the server: the `ios-vscode.sync.include`
+// and `ios-vscode.sync.exclude` globs, then the rules of every .gitignore and .iosvscodeignore.
+// Paths are relative to the folder.
+export class SyncFilter {
+  private constructor(
+    private include: string[],
+    private exclude: string[],
+    private rules: IgnoreRule[],
+  ) {}
+
+  static async load(root: SyncRoot): Promise<SyncFilter> {
+    const config = vscode.workspace.getConfiguration("ios-vscode.sync", root.folder)
+    const include = config.get<string[]>("include") || ["**/*"]
+    const exclude = config.get<string[]>("exclude") || []
+    const filter = new SyncFilter(include, exclude, [])
+
+    if (config.get<boolean>("useIgnoreFiles", true)) {
+      const ignoreFiles = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(root.folder, `**/{${IGNORE_FILES.join(",")}}`),
+        toGlob(exclude),
+      )
+      // Shallower files first so rules in subdirectories take precedence
+      const sorted = ignoreFiles
+        .map((uri) => ({ uri, path: getFolderRelativePath(root, uri) }))
+        .sort((a, b) => a.path.split("/").length - b.path.split("/").length)
+
+      for (const { uri, path } of sorted) {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8")
+        const directory = path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : ""
+        filter.rules.push(...parseIgnoreFile(content, directory))
+      }
+    }
+
+    return filter
+  }
+
+  async findFiles(root: SyncRoot): Promise<vscode.Uri[]> {
+    const uris = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(root.folder, toGlob(this.include) || "**/*"),
+      toGlob(this.exclude),
+    )
+    return uris.filter((uri) => this.matches(getFolderRelativePath(root, uri)))
+  }
+
+  // relativePath is a "/"-separated path relative to the workspace folder
+  matches(relativePath: string): boolean {
+    if (!matchesGlob(relativePath, this.include) || matchesGlob(relativePath, this.exclude)) {
+      return false
+    }
+
+    // As in git, nothing below an ignored directory can be re-included
+    const segments = relativePath.split("/")
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const isDirectory = depth < segments.length
+      if (this.isIgnored(segments.slice(0, depth).join("/"), isDirectory)) {
+        return false
+      }
+    }
+    return true
+  }
+
+  private isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false
+    for (const rule of this.rules) {
+      if ((!rule.directoryOnly || isDirectory) && rule.regExp.test(relativePath)) {
+        ignored = !rule.negated
+      }
+    }
+    return ignored
+  }
+}
+
+// Parses gitignore syntax. directory is the ignore file's directory with a trailing "/", or "" at the root.
+function parseIgnoreFile(content: string, directory: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "")
+    if (!line || line.startsWith("#")) continue
+
+    const negated = line.startsWith("!")
+    if (negated) line = line.slice(1)
+    line = line.replace(/^\\([#!])/, "$1")
+
+    const directoryOnly = line.endsWith("/")
+    if (directoryOnly) line = line.slice(0, -1)
+    if (!line) continue
+
+    // Patterns with a slash before the end are relative to the ignore file, others match at any depth
+    const anchored = line.includes("/")
+    const pattern = anchored ? line.replace(/^\//, "") : `**/${line}`
+    rules.push({ regExp: globToRegExp(directory + pattern), negated, directoryOnly })
+  }
+
+  return rules
+}
+
+function toGlob(patterns: string[]): string | undefined {
+  if (patterns.length === 0) return undefined
+  return patterns.length === 1 ? patterns[0] : `{${patterns.join(",")}}`
+}
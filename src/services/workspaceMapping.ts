@@ -0,0 +1,74 @@
+import * as vscode from "vscode"
+import * as path from "path"
+
+export interface SyncRoot {
+  folder: vscode.WorkspaceFolder
+  // Directory the folder is synced to, relative to the server project; "" for the project itself
+  remotePath: string
+}
+
+// Maps workspace folders to directories of the server project. A single folder is the project
+// itself. In multi-root workspaces each folder gets a subdirectory named after its directory on
+// disk (or `ios-vscode.sync.folderMappings`), so references between sibling folders such as
+// `../SharedKit` resolve on the server as they do locally.
+export function getSyncRoots(): SyncRoot[] {
+  const folders = vscode.workspace.workspaceFolders || []
+  if (folders.length <= 1) {
+    return folders.map((folder) => ({ folder, remotePath: "" }))
+  }
+
+  const mappings =
+    vscode.workspace.getConfiguration("ios-vscode.sync").get<Record<string, string>>("folderMappings") || {}
+  const used = new Set<string>()
+
+  return folders.map((folder) => {
+    const base = (mappings[folder.name] || path.posix.basename(folder.uri.path)).replace(/^\/+|\/+$/g, "")
+    let remotePath = base
+    // Folders with the same directory name still need separate subdirectories
+    for (let suffix = 2; used.has(remotePath); suffix++) {
+      remotePath = `${base}-${suffix}`
+    }
+    used.add(remotePath)
+    return { folder, remotePath }
+  })
+}
+
+export function getSyncRoot(uri: vscode.Uri, roots = getSyncRoots()): SyncRoot | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(uri)
+  return folder && roots.find((root) => root.folder.uri.toString() === folder.uri.toString())
+}
+
+// "/"-separated path of uri relative to its workspace folder
+export function getFolderRelativePath(root: SyncRoot, uri: vscode.Uri): string {
+  return path.posix.relative(root.folder.uri.path, uri.path)
+}
+
+// Path of a workspace file in the server project, or undefined when it is outside the workspace
+export function toRemotePath(uri: vscode.Uri, roots = getSyncRoots()): string | undefined {
+  const root = getSyncRoot(uri, roots)
+  return root && joinRemotePath(root, getFolderRelativePath(root, uri))
+}
+
+export function joinRemotePath(root: SyncRoot, relativePath: string): string {
+  return root.remotePath ? `${root.remotePath}/${relativePath}` : relativePath
+}
+
+// Workspace folder and folder-relative path for a server project path. Paths outside every
+// folder's subdirectory, such as the server's own .ios-vscode directory in multi-root
+// workspaces, have no local counterpart.
+export function fromRemotePath(
+  remotePath: string,
+  roots = getSyncRoots(),
+): { root: SyncRoot; relativePath: string } | undefined {
+  // Longest prefix first, in case one mapping is nested inside another
+  const sorted = [...roots].sort((a, b) => b.remotePath.length - a.remotePath.length)
+  for (const root of sorted) {
+    if (root.remotePath === "") {
+      return { root, relativePath: remotePath }
+    }
+    if (remotePath.startsWith(`${root.remotePath}/`)) {
+      return { root, relativePath: remotePath.slice(root.remotePath.length + 1) }
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,111 @@
+// Minimal glob matching for project-relative, "/"-separated paths.
+// Supports "**" (any number of directories), "*", "?", "{a,b}" alternatives and "[...]" classes.
+
+export interface GlobOptions {
+  // Host patterns as in OpenSSH's known_hosts: only "*" and "?" are special, matching any
+  // characters including "/", and letters match regardless of case
+  hostPattern?: boolean
+}
+
+const cache: Map<string, RegExp> = new Map()
+const hostCache: Map<string, RegExp> = new Map()
+
+// Indexes of the "{" and "}" that pair up; the others are matched literally
+function findBalancedBraces(pattern: string): Set<number> {
+  const balanced: Set<number> = new Set()
+  const open: number[] = []
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+    if (char === "[") {
+      const end = pattern.indexOf("]", index + 1)
+      if (end !== -1) index = end
+    } else if (char === "{") {
+      open.push(index)
+    } else if (char === "}" && open.length > 0) {
+      balanced.add(open.pop()!)
+      balanced.add(index)
+    }
+  }
+  return balanced
+}
+
+function hostPatternToRegExp(pattern: string): RegExp {
+  const cached = hostCache.get(pattern)
+  if (cached) {
+    return cached
+  }
+
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".")
+  const regExp = new RegExp(`^${source}$`, "i")
+  hostCache.set(pattern, regExp)
+  return regExp
+}
+
+// Throws for patterns that cannot be matched, such as ones with a reversed range like "[z-a]"
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+  if (options.hostPattern) {
+    return hostPatternToRegExp(pattern)
+  }
+  const cached = cache.get(pattern)
+  if (cached) {
+    return cached
+  }
+
+  const balancedBraces = findBalancedBraces(pattern)
+  let source = ""
+  let braceDepth = 0
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+
+    if (char === "*") {
+      if (pattern[index + 1] === "*") {
+        // "**/" matches zero or more whole directories, a trailing "**" matches everything below
+        const slash = pattern[index + 2] === "/"
+        source += slash ? "(?:[^/]+/)*" : ".*"
+        index += slash ? 2 : 1
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", index + 1)
+      if (end === -1) {
+        source += "\\["
+      } else {
+        const body = pattern
+          .slice(index + 1, end)
+          .replace(/^!/, "^")
+          .replace(/\\/g, "\\\\")
+        source += `[${body}]`
+        index = end
+      }
+    } else if (char === "{" && balancedBraces.has(index)) {
+      braceDepth++
+      source += "(?:"
+    } else if (char === "}" && balancedBraces.has(index)) {
+      braceDepth--
+      source += ")"
+    } else if (char === "," && braceDepth > 0) {
+      source += "|"
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+
+  let regExp: RegExp
+  try {
+    regExp = new RegExp(`^${source}$`)
+  } catch (error) {
+    throw new Error(`Invalid glob pattern "${pattern}": ${(error as Error).message}`)
+  }
+  cache.set(pattern, regExp)
+  return regExp
+}
+
+export function matchesGlob(path: string, patterns: string | string[]): boolean {
+  return (Array.isArray(patterns) ? patterns : [patterns]).some((pattern) => globToRegExp(pattern).test(path))
+}
@@ -0,0 +1,667 @@
+// Message protocol shared by the extension (ServerConnection) and the macOS server (iOSServer).
+// Bump PROTOCOL_VERSION whenever a payload changes shape in a way older peers cannot handle.
+
+export const PROTOCOL_VERSION = 4
+export const MIN_PROTOCOL_VERSION = 4
+
+export interface ProtocolMessage<T extends string = string, D = any> {
+  type: T
+  data: D
+  id?: string
+}
+
+export class ProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly id?: string,
+  ) {
+    super(message)
+    this.name = "ProtocolError"
+  }
+}
+
+// Shared payload types
+
+export type PathErrorCode = "INVALID_PATH" | "ABSOLUTE_PATH" | "PATH_TRAVERSAL" | "SYMLINK_ESCAPE"
+
+export interface FileError {
+  path: string
+  code: PathErrorCode
+  message: string
+}
+
+export type OperationParamType = "string" | "number" | "boolean"
+
+export interface OperationInfo {
+  name: string
+  description: string
+  params: Array<{
+    name: string
+    type: OperationParamType
+    description: string
+    optional: boolean
+    values?: string[]
+  }>
+}
+
+export interface SimulatorInfo {
+  id: string
+  name: string
+  state: string
+  runtime: string
+}
+
+export interface PhysicalDeviceInfo {
+  id: string
+  name: string
+  model?: string
+  osVersion?: string
+  connected: boolean
+}
+
+export interface CertificateInfo {
+  id: string
+  name: string
+  type: "development" | "distribution"
+  expirationDate: string | null
+}
+
+export interface ProvisioningProfileInfo {
+  id: string
+  name: string
+  appId: string
+  teamId?: string
+  type: "development" | "adhoc" | "appstore"
+  expirationDate: string
+  devices: string[]
+}
+
+export interface SyncedFile {
+  path: string
+  content: string
+  // Binary files are sent base64 encoded; text is utf8 when omitted
+  encoding?: "utf8" | "base64"
+  lastModified?: number
+}
+
+// One file in a project manifest. hash is the hex SHA-256 of the file's bytes.
+export interface ManifestEntry {
+  path: string
+  size: number
+  hash: string
+}
+
+// Progress of a long-running request such as a build, deploy or upload. Every field is optional:
+// percent only when the server can estimate it. Output such as xcodebuild's arrives as build_output.
+export interface RequestProgress {
+  phase?: string
+  percent?: number
+  // Jobs ahead of this one while it waits in the server's queue
+  queuePosition?: number
+}
+
+export type JobPriority = "high" | "normal" | "low"
+
+// A build, deploy or upload in the server's job queue
+export interface JobInfo {
+  id: string
+  // Request type that started the job, e.g. build_project
+  type: string
+  username: string
+  priority: JobPriority
+  state: "queued" | "running"
+  // Jobs ahead of this one, for queued jobs
+  queuePosition?: number
+  queuedAt: number
+  startedAt?: number
+}
+
+export interface BreakpointInfo {
+  id: string
+  file: string
+  line: number
+  condition?: string
+  enabled: boolean
+  verified?: boolean
+}
+
+export interface SimulatorInput {
+  type: "touch" | "control" | "rotate"
+  x?: number
+  y?: number
+  pressure?: number
+  touchType?: string
+  action?: "home" | "lock" | "screenshot" | "shake"
+  orientation?: "portrait" | "landscape"
+}
+
+export interface SuccessResponse {
+  success: boolean
+}
+
+export interface BuildResponse extends SuccessResponse {
+  appPath: string
+  bundleId: string
+}
+
+export interface IncrementalBuildResponse extends BuildResponse {
+  changedFiles: string[]
+  warnings: string[]
+}
+
+export interface LaunchResponse extends SuccessResponse {
+  udid: string
+}
+
+// Requests sent by the client, keyed by message type. The server answers each with `${type}_response`.
+export interface RequestMap {
+  hello: {
+    // Both sides send the range of versions they speak and use the lower of the two protocolVersions
+    request: { protocolVersion: number; minProtocolVersion?: number; clientVersion?: string }
+    response: { protocolVersion: number; minProtocolVersion: number; serverVersion: string }
+  }
+  auth_challenge: {
+    request: { username: string }
+    response: { challenge: string }
+  }
+  // Either a pre-shared token or a signature over the challenge returned by auth_challenge
+  authenticate: {
+    // project selects a directory inside the user's project root on the server
+    request: { username: string; token?: string; signature?: string; project?: string }
+    response: { sessionId: string; projectPath: string; resumeToken: string }
+  }
+  resume: {
+    request: { resumeToken: string }
+    response: { sessionId: string; projectPath: string; resumeToken: string }
+  }
+  sync_file: {
+    request: SyncedFile
+    response: SuccessResponse
+  }
+  sync_project: {
+    request: { files: SyncedFile[] }
+    // Files the server refused are reported individually instead of failing the whole sync
+    response: { syncedCount: number; failed: FileError[] }
+  }
+  delete_file: {
+    request: { path: string }
+    response: SuccessResponse
+  }
+  get_manifest: {
+    request: Record<string, never>
+    response: { files: ManifestEntry[] }
+  }
+  delete_files: {
+    request: { paths: string[] }
+    response: { deletedCount: number; failed: FileError[] }
+  }
+  // Uploads a file in pieces: offset counts bytes already sent and the file is only replaced once
+  // the final chunk arrives. The bytes are either base64 content or the payload of a binary frame.
+  sync_file_chunk: {
+    request: { path: string; content?: string; offset: number; final: boolean }
+    response: SuccessResponse & { received: number }
+  }
+  // Asks the server to push changes to files matching patterns, e.g. generated sources. known maps
+  // paths to the hashes the client already has; other matching files are pushed straight away.
+  // Directories matching exclude, the client's sync excludes such as DerivedData, are not watched.
+  watch_files: {
+    request: { patterns: string[]; known?: Record<string, string>; exclude?: string[] }
+    response: SuccessResponse
+  }
+  // Directory builds run in, relative to the project; "" for the project itself. scheme selects the
+  // shared scheme to build instead of the project's first one.
+  set_build_folder: {
+    request: { path: string; scheme?: string }
+    response: SuccessResponse
+  }
+  // All queued and running jobs, of every user
+  list_jobs: {
+    request: Record<string, never>
+    response: { jobs: JobInfo[] }
+  }
+  // Stops one of the user's jobs. Its request fails with an error saying it was cancelled.
+  cancel_job: {
+    request: { jobId: string }
+    response: { cancelled: boolean }
+  }
+  // Stops the request with this id, killing any process it started. The cancelled request gets no response.
+  cancel: {
+    request: { requestId: string }
+    response: { cancelled: boolean }
+  }
+  get_devices: {
+    request: Record<string, never>
+    response: { devices: string[] }
+  }
+  select_device: {
+    request: { device: string }
+    response: SuccessResponse & { device: string }
+  }
+  build_project: {
+    request: Record<string, never>
+    response: BuildResponse
+  }
+  run_project: {
+    request: Record<string, never>
+    response: LaunchResponse & { bundleId: string }
+  }
+  simulator_input: {
+    request: SimulatorInput
+    response: SuccessResponse
+  }
+  deploy_device: {
+    request: Record<string, never>
+    response: SuccessResponse
+  }
+  ping: {
+    request: { timestamp: number }
+    response: { timestamp: number; serverTime: number; xcodeVersion: string | null; backend: string }
+  }
+  list_operations: {
+    request: Record<string, never>
+    response: { operations: OperationInfo[] }
+  }
+  run_operation: {
+    request: { operation: string; args?: Record<string, string | number | boolean> }
+    response: { output: string }
+  }
+  run_shell: {
+    request: { command: string }
+    response: { output: string }
+  }
+  request_frame: {
+    request: { device?: string; orientation?: "portrait" | "landscape" }
+    response: SuccessResponse
+  }
+  // Pushes simulator_frame events whenever the screen changes until stopped or the socket closes.
+  // The server lowers the frame rate from maxFps when frames take long to be acknowledged.
+  start_frame_stream: {
+    request: { orientation?: "portrait" | "landscape"; maxFps?: number }
+    response: { fps: number }
+  }
+  stop_frame_stream: {
+    request: Record<string, never>
+    response: { stopped: boolean }
+  }
+  // Sent without an id once a streamed frame has been drawn; no response is sent
+  frame_ack: {
+    request: { sequence: number }
+    response: Record<string, never>
+  }
+  get_simulators: {
+    request: Record<string, never>
+    response: { simulators: SimulatorInfo[] }
+  }
+  get_physical_devices: {
+    request: Record<string, never>
+    response: { devices: PhysicalDeviceInfo[] }
+  }
+  get_certificates: {
+    request: Record<string, never>
+    response: { certificates: CertificateInfo[] }
+  }
+  get_provisioning_profiles: {
+    request: Record<string, never>
+    response: { profiles: ProvisioningProfileInfo[] }
+  }
+  build_for_deployment: {
+    request: { configuration: string; target: "simulator" | "device" | "testflight" | "appstore"; targetId: string }
+    response: BuildResponse
+  }
+  deploy_to_target: {
+    request: { targetId: string; configuration: string }
+    response: SuccessResponse
+  }
+  build_for_appstore: {
+    request: { configuration: string }
+    response: SuccessResponse & { archivePath: string }
+  }
+  upload_to_appstore: {
+    request: { configuration: string }
+    response: SuccessResponse
+  }
+  incremental_build: {
+    request: { changedFiles: string[]; buildCache?: Record<string, any> }
+    response: IncrementalBuildResponse
+  }
+  apply_incremental_update: {
+    request: IncrementalBuildResponse
+    response: LaunchResponse
+  }
+  swiftui_preview_update: {
+    request: { path: string; content: string; components?: string[] }
+    response: LaunchResponse & { components: string[] }
+  }
+  asset_update: {
+    request: { path: string; content?: string }
+    response: LaunchResponse
+  }
+  start_debug_session: {
+    request: { sessionId: string; configuration: Record<string, any> }
+    response: SuccessResponse & { processId: number }
+  }
+  stop_debug_session: {
+    request: { sessionId: string }
+    response: SuccessResponse
+  }
+  add_breakpoint: {
+    request: BreakpointInfo
+    response: SuccessResponse & { id: string; verified: boolean }
+  }
+  remove_breakpoint: {
+    request: { id: string }
+    response: SuccessResponse
+  }
+  add_watch_expression: {
+    request: { expression: string }
+    response: SuccessResponse
+  }
+  remove_watch_expression: {
+    request: { expression: string }
+    response: SuccessResponse
+  }
+}
+
+// Unsolicited messages pushed by the server
+export interface EventMap {
+  // The PNG is the payload of the binary frame
+  simulator_frame: {
+    width: number
+    height: number
+    orientation: "portrait" | "landscape"
+    timestamp: number
+    // Set on streamed frames, to be acknowledged with frame_ack
+    sequence?: number
+  }
+  build_output: { output: string; show: boolean }
+  // The content is the payload of the binary frame; deletions are sent without one
+  file_changed: { path: string; hash?: string; deleted?: boolean }
+  debug_output: { sessionId: string; output: string; error?: boolean }
+  error: { message: string; code?: PathErrorCode; path?: string }
+  // Carries the id of the running request it belongs to and always arrives before its response
+  progress: RequestProgress
+  // Sent whenever a job is queued, starts or finishes
+  jobs_changed: { jobs: JobInfo[] }
+}
+
+export type RequestType = keyof RequestMap
+export type EventType = keyof EventMap
+export type RequestData<T extends RequestType> = RequestMap[T]["request"]
+export type ResponseData<T extends RequestType> = RequestMap[T]["response"]
+export type RequestMessage<T extends RequestType = RequestType> = ProtocolMessage<T, RequestData<T>>
+
+export function responseType(type: string): string {
+  return `${type}_response`
+}
+
+// Runtime validation
+
+type FieldKind = "string" | "number" | "boolean" | "object" | "array" | "any"
+
+interface FieldSpec {
+  kind: FieldKind
+  optional?: boolean
+  items?: Schema
+  // Rejects strings with line breaks or other control characters, e.g. text the server hands to lldb line by line
+  singleLine?: boolean
+}
+
+type Schema = Record<string, FieldSpec>
+
+const required = (kind: FieldKind): FieldSpec => ({ kind })
+const optional = (kind: FieldKind): FieldSpec => ({ kind, optional: true })
+const arrayOf = (items: Schema): FieldSpec => ({ kind: "array", items })
+const singleLine = (spec: FieldSpec): FieldSpec => ({ ...spec, singleLine: true })
+
+const syncedFileSchema: Schema = {
+  path: required("string"),
+  content: required("string"),
+  encoding: optional("string"),
+  lastModified: optional("number"),
+}
+
+const incrementalBuildSchema: Schema = {
+  appPath: required("string"),
+  bundleId: required("string"),
+  changedFiles: required("array"),
+  warnings: optional("array"),
+}
+
+const requestSchemas: { [K in RequestType]: Schema } = {
+  hello: {
+    protocolVersion: required("number"),
+    minProtocolVersion: optional("number"),
+    clientVersion: optional("string"),
+  },
+  auth_challenge: { username: required("string") },
+  authenticate: {
+    username: required("string"),
+    token: optional("string"),
+    signature: optional("string"),
+    project: optional("string"),
+  },
+  resume: { resumeToken: required("string") },
+  sync_file: syncedFileSchema,
+  sync_project: { files: arrayOf(syncedFileSchema) },
+  delete_file: { path: required("string") },
+  get_manifest: {},
+  delete_files: { paths: required("array") },
+  sync_file_chunk: {
+    path: required("string"),
+    content: optional("string"),
+    offset: required("number"),
+    final: required("boolean"),
+  },
+  watch_files: { patterns: required("array"), known: optional("object"), exclude: optional("array") },
+  set_build_folder: { path: required("string"), scheme: optional("string") },
+  cancel: { requestId: required("string") },
+  list_jobs: {},
+  cancel_job: { jobId: required("string") },
+  get_devices: {},
+  select_device: { device: required("string") },
+  build_project: {},
+  run_project: {},
+  simulator_input: {
+    type: required("string"),
+    x: optional("number"),
+    y: optional("number"),
+    action: optional("string"),
+    orientation: optional("string"),
+  },
+  deploy_device: {},
+  ping: { timestamp: required("number") },
+  list_operations: {},
+  run_operation: { operation: required("string"), args: optional("object") },
+  run_shell: { command: required("string") },
+  request_frame: { device: optional("string"), orientation: optional("string") },
+  start_frame_stream: { orientation: optional("string"), maxFps: optional("number") },
+  stop_frame_stream: {},
+  frame_ack: { sequence: required("number") },
+  get_simulators: {},
+  get_physical_devices: {},
+  get_certificates: {},
+  get_provisioning_profiles: {},
+  build_for_deployment: { configuration: optional("string"), target: required("string"), targetId: required("string") },
+  deploy_to_target: { targetId: required("string"), configuration: optional("string") },
+  build_for_appstore: { configuration: optional("string") },
+  upload_to_appstore: { configuration: optional("string") },
+  incremental_build: { changedFiles: required("array"), buildCache: optional("object") },
+  apply_incremental_update: incrementalBuildSchema,
+  swiftui_preview_update: { path: required("string"), content: required("string"), components: optional("array") },
+  asset_update: { path: required("string"), content: optional("string") },
+  start_debug_session: { sessionId: required("string"), configuration: required("object") },
+  stop_debug_session: { sessionId: required("string") },
+  add_breakpoint: {
+    id: required("string"),
+    file: singleLine(required("string")),
+    line: required("number"),
+    condition: singleLine(optional("string")),
+    enabled: required("boolean"),
+  },
+  remove_breakpoint: { id: required("string") },
+  add_watch_expression: { expression: singleLine(required("string")) },
+  remove_watch_expression: { expression: required("string") },
+}
+
+const eventSchemas: { [K in EventType]: Schema } = {
+  simulator_frame: {
+    width: required("number"),
+    height: required("number"),
+    orientation: required("string"),
+    timestamp: required("number"),
+    sequence: optional("number"),
+  },
+  build_output: { output: required("string"), show: required("boolean") },
+  file_changed: {
+    path: required("string"),
+    hash: optional("string"),
+    deleted: optional("boolean"),
+  },
+  debug_output: { sessionId: required("string"), output: required("string"), error: optional("boolean") },
+  error: { message: required("string"), code: optional("string"), path: optional("string") },
+  progress: {
+    phase: optional("string"),
+    percent: optional("number"),
+    queuePosition: optional("number"),
+  },
+  jobs_changed: { jobs: required("array") },
+}
+
+function kindOf(value: unknown): FieldKind {
+  if (Array.isArray(value)) return "array"
+  if (value === null) return "any"
+  return typeof value as FieldKind
+}
+
+function validateSchema(schema: Schema, value: any, location: string): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [`${location} must be an object`]
+  }
+
+  const errors: string[] = []
+  for (const [key, spec] of Object.entries(schema)) {
+    const fieldValue = value[key]
+    const fieldLocation = `${location}.${key}`
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!spec.optional) errors.push(`${fieldLocation} is required`)
+      continue
+    }
+
+    if (spec.kind !== "any" && kindOf(fieldValue) !== spec.kind) {
+      errors.push(`${fieldLocation} must be of type ${spec.kind}`)
+      continue
+    }
+
+    if (spec.singleLine && /[\x00-\x1f\x7f]/.test(fieldValue)) {
+      errors.push(`${fieldLocation} must not contain line breaks or other control characters`)
+      continue
+    }
+
+    if (spec.items) {
+      fieldValue.forEach((item: any, index: number) => {
+        errors.push(...validateSchema(spec.items!, item, `${fieldLocation}[${index}]`))
+      })
+    }
+  }
+
+  return errors
+}
+
+function parseEnvelope(raw: string): ProtocolMessage {
+  let message: any
+  try {
+    message = JSON.parse(raw)
+  } catch {
+    throw new ProtocolError("Invalid message format: not valid JSON")
+  }
+
+  if (typeof message !== "object" || message === null || typeof message.type !== "string") {
+    throw new ProtocolError("Invalid message format: missing message type")
+  }
+  if (message.id !== undefined && typeof message.id !== "string") {
+    throw new ProtocolError("Invalid message format: id must be a string")
+  }
+  if (message.data === undefined) {
+    message.data = {}
+  }
+
+  return message
+}
+
+export function isRequestType(type: string): type is RequestType {
+  return Object.prototype.hasOwnProperty.call(requestSchemas, type)
+}
+
+export function isEventType(type: string): type is EventType {
+  return Object.prototype.hasOwnProperty.call(eventSchemas, type)
+}
+
+// Parses and validates a message received by the server
+export function parseRequest(raw: string): RequestMessage {
+  const message = parseEnvelope(raw)
+
+  if (!isRequestType(message.type)) {
+    throw new ProtocolError(`Unknown message type: ${message.type}`, message.id)
+  }
+
+  const errors = validateSchema(requestSchemas[message.type], message.data, message.type)
+  if (errors.length > 0) {
+    throw new ProtocolError(`Invalid ${message.type} payload: ${errors.join(", ")}`, message.id)
+  }
+
+  return message as RequestMessage
+}
+
+// Parses and validates a message received by the client. Responses are matched to requests by id,
+// so only the envelope is checked for them; events are checked against their schema.
+export function parseServerMessage(raw: string): ProtocolMessage {
+  const message = parseEnvelope(raw)
+
+  if (isEventType(message.type)) {
+    const errors = validateSchema(eventSchemas[message.type], message.data, message.type)
+    if (errors.length > 0) {
+      throw new ProtocolError(`Invalid ${message.type} payload: ${errors.join(", ")}`)
+    }
+  }
+
+  return message
+}
+
+// Binary frames: a 4-byte big-endian envelope length, the JSON envelope ({ type, data, id }) and
+// then the raw payload, so bulk data such as PNG frames and file chunks skips base64.
+export function encodeBinaryMessage(message: ProtocolMessage, payload: Uint8Array): Buffer {
+  const envelope = Buffer.from(JSON.stringify(message), "utf8")
+  const header = Buffer.alloc(4)
+  header.writeUInt32BE(envelope.length, 0)
+  return Buffer.concat([header, envelope, payload])
+}
+
+function splitBinaryMessage(raw: Buffer): { envelope: string; payload: Buffer } {
+  if (raw.length < 4) {
+    throw new ProtocolError("Invalid binary message: missing header")
+  }
+  const length = raw.readUInt32BE(0)
+  if (4 + length > raw.length) {
+    throw new ProtocolError("Invalid binary message: envelope exceeds message length")
+  }
+  return { envelope: raw.subarray(4, 4 + length).toString("utf8"), payload: raw.subarray(4 + length) }
+}
+
+export function parseBinaryRequest(raw: Buffer): { message: RequestMessage; payload: Buffer } {
+  const { envelope, payload } = splitBinaryMessage(raw)
+  return { message: parseRequest(envelope), payload }
+}
+
+export function parseBinaryServerMessage(raw: Buffer): { message: ProtocolMessage; payload: Buffer } {
+  const { envelope, payload } = splitBinaryMessage(raw)
+  return { message: parseServerMessage(envelope), payload }
+}
+
+// The version both peers speak: the lower of the two, or null when their supported ranges do not overlap
+export function negotiateVersion(peerVersion: number, peerMinVersion: number): number | null {
+  if (peerVersion < MIN_PROTOCOL_VERSION || peerMinVersion > PROTOCOL_VERSION) {
+    return null
+  }
+  return Math.min(peerVersion, PROTOCOL_VERSION)
+}